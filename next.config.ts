@@ -1,5 +1,32 @@
 import type { NextConfig } from "next";
 
+type RemotePattern = NonNullable<
+  NonNullable<NextConfig["images"]>["remotePatterns"]
+>[number];
+
+// Covers uploaded to S3 or MinIO (see src/lib/storage.ts). Local uploads are
+// served by the app itself and need no pattern.
+function s3Patterns(): RemotePattern[] {
+  const base =
+    process.env.S3_PUBLIC_URL ||
+    (process.env.S3_ENDPOINT && process.env.S3_BUCKET
+      ? `${process.env.S3_ENDPOINT.replace(/\/$/, "")}/${process.env.S3_BUCKET}`
+      : process.env.S3_BUCKET
+        ? `https://${process.env.S3_BUCKET}.s3.${process.env.S3_REGION || "us-east-1"}.amazonaws.com`
+        : null);
+  if (!base) return [];
+
+  const url = new URL(base);
+  return [
+    {
+      protocol: url.protocol === "http:" ? "http" : "https",
+      hostname: url.hostname,
+      port: url.port,
+      pathname: `${url.pathname.replace(/\/$/, "")}/**`,
+    },
+  ];
+}
+
 const nextConfig: NextConfig = {
   images: {
     remotePatterns: [
@@ -11,6 +38,7 @@ const nextConfig: NextConfig = {
         protocol: "https",
         hostname: "lh3.googleusercontent.com", // Google profile pictures
       },
+      ...s3Patterns(),
     ],
   },
 };
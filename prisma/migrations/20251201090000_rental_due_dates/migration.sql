@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "Rental" ADD COLUMN "dueAt" TIMESTAMP(3);
+
+-- Backfill existing rentals with the default 14 day loan period
+UPDATE "Rental" SET "dueAt" = "rentedAt" + INTERVAL '14 days';
+
+ALTER TABLE "Rental" ALTER COLUMN "dueAt" SET NOT NULL;
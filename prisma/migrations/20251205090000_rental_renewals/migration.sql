@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Rental" ADD COLUMN "renewalCount" INTEGER NOT NULL DEFAULT 0;
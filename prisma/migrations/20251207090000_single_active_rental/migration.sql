@@ -0,0 +1,14 @@
+-- Close duplicate active rentals left behind by concurrent rent requests,
+-- keeping the earliest one for each book
+UPDATE "Rental" AS r
+SET "returnedAt" = CURRENT_TIMESTAMP
+WHERE r."returnedAt" IS NULL
+  AND EXISTS (
+    SELECT 1 FROM "Rental" AS other
+    WHERE other."bookId" = r."bookId"
+      AND other."returnedAt" IS NULL
+      AND (other."rentedAt", other."id") < (r."rentedAt", r."id")
+  );
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Rental_bookId_active_key" ON "Rental"("bookId") WHERE "returnedAt" IS NULL;
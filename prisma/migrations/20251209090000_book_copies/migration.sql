@@ -0,0 +1,55 @@
+-- CreateEnum
+CREATE TYPE "BookCondition" AS ENUM ('NEW', 'GOOD', 'FAIR', 'POOR');
+
+-- CreateTable
+CREATE TABLE "BookCopy" (
+    "id" TEXT NOT NULL,
+    "bookId" TEXT NOT NULL,
+    "barcode" TEXT,
+    "condition" "BookCondition" NOT NULL DEFAULT 'GOOD',
+    "ownerId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "BookCopy_pkey" PRIMARY KEY ("id")
+);
+
+-- Every existing book becomes a title with a single copy owned by whoever added it
+INSERT INTO "BookCopy" ("id", "bookId", "ownerId", "updatedAt")
+SELECT gen_random_uuid()::text, "id", "ownerId", CURRENT_TIMESTAMP FROM "Book";
+
+-- AlterTable
+ALTER TABLE "Rental" ADD COLUMN "copyId" TEXT;
+
+UPDATE "Rental" AS r
+SET "copyId" = c."id"
+FROM "BookCopy" AS c
+WHERE c."bookId" = r."bookId";
+
+ALTER TABLE "Rental" ALTER COLUMN "copyId" SET NOT NULL;
+
+-- The single active rental guarantee moves from the book to the copy
+DROP INDEX "Rental_bookId_active_key";
+
+CREATE UNIQUE INDEX "Rental_copyId_active_key" ON "Rental"("copyId") WHERE "returnedAt" IS NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BookCopy_barcode_key" ON "BookCopy"("barcode");
+
+-- CreateIndex
+CREATE INDEX "BookCopy_bookId_idx" ON "BookCopy"("bookId");
+
+-- CreateIndex
+CREATE INDEX "BookCopy_ownerId_idx" ON "BookCopy"("ownerId");
+
+-- CreateIndex
+CREATE INDEX "Rental_copyId_idx" ON "Rental"("copyId");
+
+-- AddForeignKey
+ALTER TABLE "BookCopy" ADD CONSTRAINT "BookCopy_bookId_fkey" FOREIGN KEY ("bookId") REFERENCES "Book"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BookCopy" ADD CONSTRAINT "BookCopy_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Rental" ADD CONSTRAINT "Rental_copyId_fkey" FOREIGN KEY ("copyId") REFERENCES "BookCopy"("id") ON DELETE CASCADE ON UPDATE CASCADE;
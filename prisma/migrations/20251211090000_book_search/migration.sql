@@ -0,0 +1,28 @@
+-- CreateExtension
+CREATE EXTENSION IF NOT EXISTS "unaccent";
+CREATE EXTENSION IF NOT EXISTS "pg_trgm";
+
+-- unaccent() is only STABLE, which expression indexes do not accept
+CREATE OR REPLACE FUNCTION f_unaccent(text) RETURNS text
+  LANGUAGE sql IMMUTABLE PARALLEL SAFE STRICT
+  AS $$ SELECT public.unaccent('public.unaccent'::regdictionary, $1) $$;
+
+-- English stemming with diacritics stripped first, so "prilis" finds "příliš"
+CREATE TEXT SEARCH CONFIGURATION book_search (COPY = english);
+ALTER TEXT SEARCH CONFIGURATION book_search
+  ALTER MAPPING FOR hword, hword_part, word WITH unaccent, english_stem;
+
+-- AlterTable
+ALTER TABLE "Book" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('book_search'::regconfig, coalesce("title", '')), 'A') ||
+  setweight(to_tsvector('book_search'::regconfig, coalesce("isbn", '')), 'A') ||
+  setweight(to_tsvector('book_search'::regconfig, coalesce("author", '')), 'B') ||
+  setweight(to_tsvector('book_search'::regconfig, coalesce("description", '')), 'C')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "Book_searchVector_idx" ON "Book" USING GIN ("searchVector");
+
+-- Trigram index for typo tolerant matching on title and author
+CREATE INDEX "Book_title_author_trgm_idx" ON "Book"
+  USING GIN (f_unaccent(lower("title" || ' ' || "author")) gin_trgm_ops);
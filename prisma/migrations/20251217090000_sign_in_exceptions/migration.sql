@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "SignInException" (
+    "id" TEXT NOT NULL,
+    "value" TEXT NOT NULL,
+    "note" TEXT,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SignInException_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SignInException_value_key" ON "SignInException"("value");
+
+-- AddForeignKey
+ALTER TABLE "SignInException" ADD CONSTRAINT "SignInException_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "AuditEvent" ADD COLUMN     "after" JSONB,
+ADD COLUMN     "before" JSONB;
+
+-- CreateIndex
+CREATE INDEX "AuditEvent_createdAt_idx" ON "AuditEvent"("createdAt");
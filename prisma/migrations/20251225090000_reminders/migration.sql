@@ -0,0 +1,19 @@
+-- CreateEnum
+CREATE TYPE "ReminderType" AS ENUM ('DUE_SOON', 'OVERDUE', 'OWNER_OVERDUE');
+
+-- CreateTable
+CREATE TABLE "Reminder" (
+    "id" TEXT NOT NULL,
+    "rentalId" TEXT NOT NULL,
+    "type" "ReminderType" NOT NULL,
+    "dueAt" TIMESTAMP(3) NOT NULL,
+    "sentAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Reminder_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Reminder_rentalId_type_dueAt_key" ON "Reminder"("rentalId", "type", "dueAt");
+
+-- AddForeignKey
+ALTER TABLE "Reminder" ADD CONSTRAINT "Reminder_rentalId_fkey" FOREIGN KEY ("rentalId") REFERENCES "Rental"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,41 @@
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'LOAN_DUE_SOON';
+ALTER TYPE "NotificationType" ADD VALUE 'OWNER_LOAN_OVERDUE';
+
+-- CreateEnum
+CREATE TYPE "DigestFrequency" AS ENUM ('OFF', 'DAILY', 'WEEKLY');
+
+-- CreateEnum
+CREATE TYPE "DeliveryChannel" AS ENUM ('EMAIL', 'CHAT');
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "chatWebhookUrl" TEXT,
+ADD COLUMN     "digestFrequency" "DigestFrequency" NOT NULL DEFAULT 'OFF',
+ADD COLUMN     "notificationChannels" JSONB,
+ADD COLUMN     "quietHoursEnd" INTEGER,
+ADD COLUMN     "quietHoursStart" INTEGER,
+ADD COLUMN     "timeZone" TEXT;
+
+-- CreateTable
+CREATE TABLE "NotificationDelivery" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "channel" "DeliveryChannel" NOT NULL,
+    "subject" TEXT NOT NULL,
+    "text" TEXT NOT NULL,
+    "html" TEXT,
+    "sendAfter" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "sentAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "NotificationDelivery_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "NotificationDelivery_sentAt_sendAfter_idx" ON "NotificationDelivery"("sentAt", "sendAfter");
+
+-- CreateIndex
+CREATE INDEX "NotificationDelivery_userId_idx" ON "NotificationDelivery"("userId");
+
+-- AddForeignKey
+ALTER TABLE "NotificationDelivery" ADD CONSTRAINT "NotificationDelivery_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Book" ADD COLUMN     "coverPlaceholder" TEXT,
+ADD COLUMN     "coverThumbnail" TEXT;
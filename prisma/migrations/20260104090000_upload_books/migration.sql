@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Upload" ADD COLUMN     "bookId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Upload_bookId_idx" ON "Upload"("bookId");
+
+-- AddForeignKey
+ALTER TABLE "Upload" ADD CONSTRAINT "Upload_bookId_fkey" FOREIGN KEY ("bookId") REFERENCES "Book"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "BookCopy" ADD COLUMN     "retiredAt" TIMESTAMP(3);
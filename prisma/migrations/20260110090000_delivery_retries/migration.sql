@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "NotificationDelivery" ADD COLUMN     "attempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "failedAt" TIMESTAMP(3);
@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "UploadAttempt" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "UploadAttempt_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "UploadAttempt_userId_createdAt_idx" ON "UploadAttempt"("userId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "UploadAttempt" ADD CONSTRAINT "UploadAttempt_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Upload" ADD COLUMN     "placeholder" TEXT;
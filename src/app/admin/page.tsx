@@ -0,0 +1,674 @@
+"use client";
+
+import { useEffect, useState, useCallback } from "react";
+import { useSession } from "next-auth/react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { toast } from "sonner";
+import {
+  ArrowLeft,
+  Users,
+  BookMarked,
+  BookX,
+  KeyRound,
+  RotateCcw,
+  UserRoundCog,
+  Webhook,
+} from "lucide-react";
+import { EmptyState, PageLoader } from "@/components/loading";
+import { SignInExceptions } from "@/components/sign-in-exceptions";
+import { Webhooks } from "@/components/webhooks";
+
+type Role = "MEMBER" | "LIBRARIAN" | "ADMIN";
+
+const roleLabels: Record<Role, string> = {
+  MEMBER: "Member",
+  LIBRARIAN: "Librarian",
+  ADMIN: "Admin",
+};
+
+interface AdminUser {
+  id: string;
+  name: string | null;
+  email: string | null;
+  image: string | null;
+  role: Role;
+  booksAdded: number;
+  totalRentals: number;
+  activeRentals: number;
+  overdueRentals: number;
+}
+
+interface AdminRental {
+  id: string;
+  rentedAt: string;
+  dueAt: string;
+  isOverdue: boolean;
+  book: {
+    id: string;
+    title: string;
+    author: string;
+  };
+  copy: {
+    id: string;
+    barcode: string | null;
+  };
+  user: {
+    id: string;
+    name: string | null;
+    email: string | null;
+    image: string | null;
+  };
+}
+
+interface InactiveBook {
+  id: string;
+  title: string;
+  author: string;
+  createdAt: string;
+  owner: {
+    id: string;
+    name: string | null;
+    email: string | null;
+    image: string | null;
+  };
+  _count: {
+    copies: number;
+  };
+}
+
+function UserCell({
+  user,
+}: {
+  user: { name: string | null; email: string | null; image: string | null };
+}) {
+  return (
+    <div className="flex items-center gap-2">
+      <Avatar className="h-6 w-6">
+        <AvatarImage src={user.image || undefined} />
+        <AvatarFallback className="text-xs">
+          {user.name?.charAt(0) || "?"}
+        </AvatarFallback>
+      </Avatar>
+      <div className="min-w-0">
+        <p className="truncate">{user.name || "Unknown"}</p>
+        <p className="truncate text-xs text-muted-foreground">{user.email}</p>
+      </div>
+    </div>
+  );
+}
+
+export default function AdminPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [users, setUsers] = useState<AdminUser[]>([]);
+  const [rentals, setRentals] = useState<AdminRental[]>([]);
+  const [inactiveBooks, setInactiveBooks] = useState<InactiveBook[]>([]);
+  const [inactiveDays, setInactiveDays] = useState(0);
+  const [rentalFilter, setRentalFilter] = useState<string>("all");
+  const [loading, setLoading] = useState(true);
+  const [actionLoading, setActionLoading] = useState(false);
+
+  // Force return and reassign both ask for a reason that goes to the audit log
+  const [returning, setReturning] = useState<AdminRental | null>(null);
+  const [reassigning, setReassigning] = useState<InactiveBook | null>(null);
+  const [newOwnerId, setNewOwnerId] = useState("");
+  const [reason, setReason] = useState("");
+
+  const isAdmin = session?.user?.role === "ADMIN";
+
+  const fetchData = useCallback(async () => {
+    try {
+      const [usersResponse, rentalsResponse, booksResponse] = await Promise.all(
+        [
+          fetch("/api/admin/users"),
+          fetch(
+            `/api/admin/rentals${rentalFilter === "overdue" ? "?overdue=true" : ""}`
+          ),
+          fetch("/api/admin/books"),
+        ]
+      );
+
+      if (usersResponse.ok) {
+        setUsers(await usersResponse.json());
+      }
+      if (rentalsResponse.ok) {
+        setRentals(await rentalsResponse.json());
+      }
+      if (booksResponse.ok) {
+        const data = await booksResponse.json();
+        setInactiveBooks(data.books);
+        setInactiveDays(data.inactiveDays);
+      }
+    } catch (error) {
+      console.error("Failed to fetch admin data:", error);
+      toast.error("Failed to load data");
+    } finally {
+      setLoading(false);
+    }
+  }, [rentalFilter]);
+
+  useEffect(() => {
+    if (status === "unauthenticated") {
+      router.push("/login");
+    } else if (status === "authenticated") {
+      if (isAdmin) {
+        fetchData();
+      } else {
+        router.push("/");
+      }
+    }
+  }, [status, isAdmin, router, fetchData]);
+
+  function closeDialogs() {
+    setReturning(null);
+    setReassigning(null);
+    setNewOwnerId("");
+    setReason("");
+  }
+
+  async function handleRoleChange(userId: string, role: Role) {
+    try {
+      const response = await fetch(`/api/users/${userId}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ role }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Failed to change role");
+      }
+
+      toast.success(`Role changed to ${roleLabels[role]}`);
+      fetchData();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to change role"
+      );
+    }
+  }
+
+  async function handleForceReturn() {
+    if (!returning) return;
+
+    setActionLoading(true);
+    try {
+      const response = await fetch(`/api/books/${returning.book.id}/rent`, {
+        method: "DELETE",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ rentalId: returning.id, reason }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Failed to return book");
+      }
+
+      toast.success(`"${returning.book.title}" returned`);
+      closeDialogs();
+      fetchData();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to return book"
+      );
+    } finally {
+      setActionLoading(false);
+    }
+  }
+
+  async function handleReassign() {
+    if (!reassigning) return;
+
+    setActionLoading(true);
+    try {
+      const response = await fetch(`/api/admin/books/${reassigning.id}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ ownerId: newOwnerId, reason }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Failed to reassign book");
+      }
+
+      const book = await response.json();
+      toast.success(
+        `"${reassigning.title}" now belongs to ${book.owner.name || "Unknown"}`
+      );
+      closeDialogs();
+      fetchData();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to reassign book"
+      );
+    } finally {
+      setActionLoading(false);
+    }
+  }
+
+  function formatDate(dateString: string) {
+    return new Date(dateString).toLocaleDateString("cs-CZ", {
+      day: "numeric",
+      month: "short",
+      year: "numeric",
+    });
+  }
+
+  if (status === "loading" || loading || !isAdmin) {
+    return <PageLoader />;
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 py-4 sm:py-8">
+        {/* Back button */}
+        <Button
+          variant="ghost"
+          onClick={() => router.push("/")}
+          className="mb-4 sm:mb-8 -ml-2"
+        >
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to Library
+        </Button>
+
+        <h1 className="text-2xl sm:text-3xl font-bold mb-4 sm:mb-6">Admin</h1>
+
+        <Tabs defaultValue="users" className="w-full">
+          <TabsList className="grid w-full max-w-3xl grid-cols-5 h-auto">
+            <TabsTrigger
+              value="users"
+              className="flex items-center gap-1.5 sm:gap-2 py-2 sm:py-2.5 text-xs sm:text-sm"
+            >
+              <Users className="h-3.5 w-3.5 sm:h-4 sm:w-4" />
+              <span>Users</span>
+              <Badge variant="secondary" className="ml-1 h-5 px-1.5 text-xs">
+                {users.length}
+              </Badge>
+            </TabsTrigger>
+            <TabsTrigger
+              value="rentals"
+              className="flex items-center gap-1.5 sm:gap-2 py-2 sm:py-2.5 text-xs sm:text-sm"
+            >
+              <BookMarked className="h-3.5 w-3.5 sm:h-4 sm:w-4" />
+              <span>Loans</span>
+              <Badge variant="secondary" className="ml-1 h-5 px-1.5 text-xs">
+                {rentals.length}
+              </Badge>
+            </TabsTrigger>
+            <TabsTrigger
+              value="books"
+              className="flex items-center gap-1.5 sm:gap-2 py-2 sm:py-2.5 text-xs sm:text-sm"
+            >
+              <BookX className="h-3.5 w-3.5 sm:h-4 sm:w-4" />
+              <span>Inactive</span>
+              <Badge variant="secondary" className="ml-1 h-5 px-1.5 text-xs">
+                {inactiveBooks.length}
+              </Badge>
+            </TabsTrigger>
+            <TabsTrigger
+              value="access"
+              className="flex items-center gap-1.5 sm:gap-2 py-2 sm:py-2.5 text-xs sm:text-sm"
+            >
+              <KeyRound className="h-3.5 w-3.5 sm:h-4 sm:w-4" />
+              <span>Access</span>
+            </TabsTrigger>
+            <TabsTrigger
+              value="webhooks"
+              className="flex items-center gap-1.5 sm:gap-2 py-2 sm:py-2.5 text-xs sm:text-sm"
+            >
+              <Webhook className="h-3.5 w-3.5 sm:h-4 sm:w-4" />
+              <span>Webhooks</span>
+            </TabsTrigger>
+          </TabsList>
+
+          {/* Users */}
+          <TabsContent value="users" className="mt-4 sm:mt-6">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>User</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead className="text-right">Books</TableHead>
+                  <TableHead className="text-right">Active loans</TableHead>
+                  <TableHead className="text-right">Overdue</TableHead>
+                  <TableHead className="text-right">All loans</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {users.map((user) => (
+                  <TableRow key={user.id}>
+                    <TableCell>
+                      <UserCell user={user} />
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={user.role}
+                        onValueChange={(role) =>
+                          handleRoleChange(user.id, role as Role)
+                        }
+                        disabled={user.id === session?.user?.id}
+                      >
+                        <SelectTrigger className="w-32" size="sm">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(roleLabels).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>
+                              {label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {user.booksAdded}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {user.activeRentals}
+                    </TableCell>
+                    <TableCell
+                      className={`text-right ${
+                        user.overdueRentals > 0
+                          ? "text-destructive font-medium"
+                          : ""
+                      }`}
+                    >
+                      {user.overdueRentals}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {user.totalRentals}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TabsContent>
+
+          {/* Active and overdue loans */}
+          <TabsContent value="rentals" className="mt-4 sm:mt-6 space-y-4">
+            <Select value={rentalFilter} onValueChange={setRentalFilter}>
+              <SelectTrigger className="w-full sm:w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All active</SelectItem>
+                <SelectItem value="overdue">Overdue</SelectItem>
+              </SelectContent>
+            </Select>
+            {rentals.length === 0 ? (
+              <EmptyState
+                icon={
+                  <BookMarked className="h-12 w-12 text-muted-foreground" />
+                }
+                title={
+                  rentalFilter === "overdue"
+                    ? "No overdue loans"
+                    : "No active loans"
+                }
+                description="Nothing is out at the moment."
+              />
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Book</TableHead>
+                    <TableHead>Borrower</TableHead>
+                    <TableHead>Rented</TableHead>
+                    <TableHead>Due</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rentals.map((rental) => (
+                    <TableRow key={rental.id}>
+                      <TableCell>
+                        <Link
+                          href={`/books/${rental.book.id}`}
+                          className="font-medium hover:underline"
+                        >
+                          {rental.book.title}
+                        </Link>
+                        {rental.copy.barcode && (
+                          <p className="text-xs text-muted-foreground">
+                            Copy {rental.copy.barcode}
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <UserCell user={rental.user} />
+                      </TableCell>
+                      <TableCell>{formatDate(rental.rentedAt)}</TableCell>
+                      <TableCell>
+                        {rental.isOverdue ? (
+                          <Badge variant="destructive">
+                            {formatDate(rental.dueAt)}
+                          </Badge>
+                        ) : (
+                          formatDate(rental.dueAt)
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setReturning(rental)}
+                        >
+                          <RotateCcw className="mr-1.5 h-3 w-3" />
+                          Force return
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </TabsContent>
+
+          {/* Books of inactive owners */}
+          <TabsContent value="books" className="mt-4 sm:mt-6 space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Books whose owner has not signed in, rented or added anything for{" "}
+              {inactiveDays} days.
+            </p>
+            {inactiveBooks.length === 0 ? (
+              <EmptyState
+                icon={<BookX className="h-12 w-12 text-muted-foreground" />}
+                title="No inactive owners"
+                description="Every book has an active owner."
+              />
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Book</TableHead>
+                    <TableHead>Owner</TableHead>
+                    <TableHead className="text-right">Copies</TableHead>
+                    <TableHead>Added</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {inactiveBooks.map((book) => (
+                    <TableRow key={book.id}>
+                      <TableCell>
+                        <Link
+                          href={`/books/${book.id}`}
+                          className="font-medium hover:underline"
+                        >
+                          {book.title}
+                        </Link>
+                        <p className="text-xs text-muted-foreground">
+                          {book.author}
+                        </p>
+                      </TableCell>
+                      <TableCell>
+                        <UserCell user={book.owner} />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {book._count.copies}
+                      </TableCell>
+                      <TableCell>{formatDate(book.createdAt)}</TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setReassigning(book)}
+                        >
+                          <UserRoundCog className="mr-1.5 h-3 w-3" />
+                          Reassign
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </TabsContent>
+
+          {/* Sign-in exceptions */}
+          <TabsContent value="access" className="mt-4 sm:mt-6">
+            <SignInExceptions />
+          </TabsContent>
+
+          {/* Webhooks */}
+          <TabsContent value="webhooks" className="mt-4 sm:mt-6">
+            <Webhooks />
+          </TabsContent>
+        </Tabs>
+      </div>
+
+      {/* Force return */}
+      <AlertDialog
+        open={!!returning}
+        onOpenChange={(open) => !open && closeDialogs()}
+      >
+        <AlertDialogContent className="max-w-[90vw] sm:max-w-lg">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Force return?</AlertDialogTitle>
+            <AlertDialogDescription>
+              &quot;{returning?.book.title}&quot; will be marked as returned on
+              behalf of {returning?.user.name || "the borrower"}.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="return-reason">Reason</Label>
+            <Textarea
+              id="return-reason"
+              placeholder="e.g. Book found on the shelf"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleForceReturn();
+              }}
+              disabled={actionLoading || !reason.trim()}
+            >
+              Return
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Reassign ownership */}
+      <AlertDialog
+        open={!!reassigning}
+        onOpenChange={(open) => !open && closeDialogs()}
+      >
+        <AlertDialogContent className="max-w-[90vw] sm:max-w-lg">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Reassign book?</AlertDialogTitle>
+            <AlertDialogDescription>
+              &quot;{reassigning?.title}&quot; and the copies{" "}
+              {reassigning?.owner.name || "its owner"} brought will belong to
+              the new owner.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>New owner</Label>
+              <Select value={newOwnerId} onValueChange={setNewOwnerId}>
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder="Choose a user" />
+                </SelectTrigger>
+                <SelectContent>
+                  {users
+                    .filter((user) => user.id !== reassigning?.owner.id)
+                    .map((user) => (
+                      <SelectItem key={user.id} value={user.id}>
+                        {user.name || user.email || "Unknown"}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="reassign-reason">Reason</Label>
+              <Textarea
+                id="reassign-reason"
+                placeholder="e.g. Previous owner left the company"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+              />
+            </div>
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleReassign();
+              }}
+              disabled={actionLoading || !newOwnerId || !reason.trim()}
+            >
+              Reassign
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
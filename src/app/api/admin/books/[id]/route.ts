@@ -0,0 +1,118 @@
+import { prisma } from "@/lib/prisma";
+import {
+  authorize,
+  can,
+  getCurrentUser,
+  getOverrideReason,
+} from "@/lib/permissions";
+import { recordAudit } from "@/lib/audit";
+import { NextRequest, NextResponse } from "next/server";
+import * as z from "zod";
+
+const reassignSchema = z.object({
+  ownerId: z.string().min(1, "New owner is required"),
+});
+
+// PATCH /api/admin/books/[id] - Hand a book and its owner's copies over to
+// another user (admin only)
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getCurrentUser();
+  const { id } = await params;
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!can(user, "book.reassign")) {
+    return NextResponse.json({ error: "Admins only" }, { status: 403 });
+  }
+
+  try {
+    const body = await request.json().catch(() => null);
+    const parsed = reassignSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { ownerId } = parsed.data;
+
+    const book = await prisma.book.findUnique({
+      where: { id, deletedAt: null },
+    });
+
+    if (!book) {
+      return NextResponse.json({ error: "Book not found" }, { status: 404 });
+    }
+
+    if (book.ownerId === ownerId) {
+      return NextResponse.json(
+        { error: "This user already owns the book" },
+        { status: 400 }
+      );
+    }
+
+    const newOwner = await prisma.user.findUnique({
+      where: { id: ownerId },
+    });
+
+    if (!newOwner) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const access = authorize(user, "book.reassign", {
+      ownerId: book.ownerId,
+      reason: getOverrideReason(body),
+      deniedMessage: "Admins only",
+    });
+    if (!access.allowed) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      );
+    }
+
+    // The physical copies the previous owner brought move along with the book
+    const [updated] = await prisma.$transaction([
+      prisma.book.update({
+        where: { id },
+        data: { ownerId },
+        include: {
+          owner: {
+            select: {
+              id: true,
+              name: true,
+              image: true,
+            },
+          },
+        },
+      }),
+      prisma.bookCopy.updateMany({
+        where: { bookId: id, ownerId: book.ownerId },
+        data: { ownerId },
+      }),
+    ]);
+
+    await recordAudit(user, {
+      action: "book.reassign",
+      entity: { type: "book", id },
+      before: { ownerId: book.ownerId },
+      after: { ownerId },
+      reason: access.overrideReason,
+    });
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    console.error("Error reassigning book:", error);
+    return NextResponse.json(
+      { error: "Failed to reassign book" },
+      { status: 500 }
+    );
+  }
+}
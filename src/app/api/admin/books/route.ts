@@ -0,0 +1,64 @@
+import { prisma } from "@/lib/prisma";
+import { can, getCurrentUser } from "@/lib/permissions";
+import { getInactiveOwnerCutoff, getInactiveOwnerDays } from "@/lib/admin";
+import { NextResponse } from "next/server";
+
+// GET /api/admin/books - Books whose owner shows no recent activity (admin
+// only)
+export async function GET() {
+  const user = await getCurrentUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!can(user, "admin.access")) {
+    return NextResponse.json({ error: "Admins only" }, { status: 403 });
+  }
+
+  const now = new Date();
+  const cutoff = getInactiveOwnerCutoff(now);
+
+  try {
+    // No live session and nothing rented or added since the cutoff
+    const books = await prisma.book.findMany({
+      where: {
+        deletedAt: null,
+        owner: {
+          sessions: { none: { expires: { gt: now } } },
+          rentals: { none: { rentedAt: { gte: cutoff } } },
+          booksAdded: { none: { createdAt: { gte: cutoff } } },
+        },
+      },
+      include: {
+        owner: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+            image: true,
+          },
+        },
+        _count: {
+          select: {
+            copies: { where: { retiredAt: null } },
+          },
+        },
+      },
+      orderBy: {
+        createdAt: "asc",
+      },
+    });
+
+    return NextResponse.json({
+      books,
+      inactiveDays: getInactiveOwnerDays(),
+    });
+  } catch (error) {
+    console.error("Error fetching inactive books:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch books" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { prisma } from "@/lib/prisma";
+import { can, getCurrentUser } from "@/lib/permissions";
+import { isRentalOverdue } from "@/lib/rentals";
+import { NextRequest, NextResponse } from "next/server";
+
+// GET /api/admin/rentals - All active rentals, or only overdue ones with
+// ?overdue=true (admin only)
+export async function GET(request: NextRequest) {
+  const user = await getCurrentUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!can(user, "admin.access")) {
+    return NextResponse.json({ error: "Admins only" }, { status: 403 });
+  }
+
+  const overdueOnly = request.nextUrl.searchParams.get("overdue") === "true";
+  const now = new Date();
+
+  try {
+    const rentals = await prisma.rental.findMany({
+      where: {
+        returnedAt: null,
+        ...(overdueOnly && { dueAt: { lt: now } }),
+      },
+      include: {
+        book: {
+          select: {
+            id: true,
+            title: true,
+            author: true,
+            coverImage: true,
+          },
+        },
+        copy: {
+          select: {
+            id: true,
+            barcode: true,
+          },
+        },
+        user: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+            image: true,
+          },
+        },
+      },
+      orderBy: {
+        dueAt: "asc",
+      },
+    });
+
+    return NextResponse.json(
+      rentals.map((rental) => ({
+        ...rental,
+        isOverdue: isRentalOverdue(rental, now),
+      }))
+    );
+  } catch (error) {
+    console.error("Error fetching rentals:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch rentals" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { prisma } from "@/lib/prisma";
+import { can, getCurrentUser } from "@/lib/permissions";
+import { NextRequest, NextResponse } from "next/server";
+
+// DELETE /api/admin/sign-in-exceptions/[id] - Remove a sign-in exception
+// (admin only). Existing sessions are not affected.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getCurrentUser();
+  const { id } = await params;
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!can(user, "signInException.manage")) {
+    return NextResponse.json({ error: "Admins only" }, { status: 403 });
+  }
+
+  try {
+    const exception = await prisma.signInException.findUnique({
+      where: { id },
+    });
+
+    if (!exception) {
+      return NextResponse.json(
+        { error: "Exception not found" },
+        { status: 404 }
+      );
+    }
+
+    await prisma.signInException.delete({
+      where: { id },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error removing sign-in exception:", error);
+    return NextResponse.json(
+      { error: "Failed to remove exception" },
+      { status: 500 }
+    );
+  }
+}
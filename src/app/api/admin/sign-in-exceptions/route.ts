@@ -0,0 +1,102 @@
+import { prisma } from "@/lib/prisma";
+import { can, getCurrentUser } from "@/lib/permissions";
+import { signInExceptionSchema } from "@/lib/sign-in-policy";
+import { Prisma } from "@prisma/client";
+import { NextRequest, NextResponse } from "next/server";
+
+// GET /api/admin/sign-in-exceptions - List sign-in exceptions (admin only)
+export async function GET() {
+  const user = await getCurrentUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!can(user, "signInException.manage")) {
+    return NextResponse.json({ error: "Admins only" }, { status: 403 });
+  }
+
+  try {
+    const exceptions = await prisma.signInException.findMany({
+      include: {
+        createdBy: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+      },
+      orderBy: {
+        value: "asc",
+      },
+    });
+
+    return NextResponse.json(exceptions);
+  } catch (error) {
+    console.error("Error fetching sign-in exceptions:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch exceptions" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/admin/sign-in-exceptions - Allow an address or domain to sign in
+// (admin only)
+export async function POST(request: NextRequest) {
+  const user = await getCurrentUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!can(user, "signInException.manage")) {
+    return NextResponse.json({ error: "Admins only" }, { status: 403 });
+  }
+
+  try {
+    const parsed = signInExceptionSchema.safeParse(
+      await request.json().catch(() => null)
+    );
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const exception = await prisma.signInException.create({
+      data: {
+        ...parsed.data,
+        createdById: user.id,
+      },
+      include: {
+        createdBy: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+      },
+    });
+
+    return NextResponse.json(exception, { status: 201 });
+  } catch (error) {
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      return NextResponse.json(
+        { error: "This exception already exists" },
+        { status: 409 }
+      );
+    }
+
+    console.error("Error creating sign-in exception:", error);
+    return NextResponse.json(
+      { error: "Failed to add exception" },
+      { status: 500 }
+    );
+  }
+}
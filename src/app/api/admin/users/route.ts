@@ -0,0 +1,67 @@
+import { prisma } from "@/lib/prisma";
+import { can, getCurrentUser } from "@/lib/permissions";
+import { isRentalOverdue } from "@/lib/rentals";
+import { NextResponse } from "next/server";
+
+// GET /api/admin/users - All users with their book and loan counts (admin only)
+export async function GET() {
+  const user = await getCurrentUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!can(user, "admin.access")) {
+    return NextResponse.json({ error: "Admins only" }, { status: 403 });
+  }
+
+  try {
+    const users = await prisma.user.findMany({
+      select: {
+        id: true,
+        name: true,
+        email: true,
+        image: true,
+        role: true,
+        createdAt: true,
+        rentals: {
+          where: {
+            returnedAt: null,
+          },
+          select: {
+            dueAt: true,
+            returnedAt: true,
+          },
+        },
+        _count: {
+          select: {
+            booksAdded: true,
+            rentals: true,
+          },
+        },
+      },
+      orderBy: {
+        name: "asc",
+      },
+    });
+
+    const now = new Date();
+
+    return NextResponse.json(
+      users.map(({ rentals, _count, ...rest }) => ({
+        ...rest,
+        booksAdded: _count.booksAdded,
+        totalRentals: _count.rentals,
+        activeRentals: rentals.length,
+        overdueRentals: rentals.filter((rental) => isRentalOverdue(rental, now))
+          .length,
+      }))
+    );
+  } catch (error) {
+    console.error("Error fetching users:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch users" },
+      { status: 500 }
+    );
+  }
+}
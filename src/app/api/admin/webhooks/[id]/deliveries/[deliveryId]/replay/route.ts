@@ -0,0 +1,46 @@
+import { prisma } from "@/lib/prisma";
+import { can, getCurrentUser } from "@/lib/permissions";
+import { replayDelivery } from "@/lib/webhooks";
+import { NextRequest, NextResponse } from "next/server";
+
+// POST /api/admin/webhooks/[id]/deliveries/[deliveryId]/replay - Send a
+// logged delivery again right away (admin only). The replay is logged as a
+// new delivery and retried like any other.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; deliveryId: string }> }
+) {
+  const user = await getCurrentUser();
+  const { id, deliveryId } = await params;
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!can(user, "webhook.manage")) {
+    return NextResponse.json({ error: "Admins only" }, { status: 403 });
+  }
+
+  try {
+    const delivery = await prisma.webhookDelivery.findUnique({
+      where: { id: deliveryId, webhookId: id },
+    });
+
+    if (!delivery) {
+      return NextResponse.json(
+        { error: "Delivery not found" },
+        { status: 404 }
+      );
+    }
+
+    const replay = await replayDelivery(delivery.id);
+
+    return NextResponse.json(replay, { status: 201 });
+  } catch (error) {
+    console.error("Error replaying webhook delivery:", error);
+    return NextResponse.json(
+      { error: "Failed to replay delivery" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { prisma } from "@/lib/prisma";
+import { can, getCurrentUser } from "@/lib/permissions";
+import { webhookDeliverySelect } from "@/lib/webhooks";
+import { NextRequest, NextResponse } from "next/server";
+
+const DELIVERY_LOG_LIMIT = 50;
+
+// GET /api/admin/webhooks/[id]/deliveries - Latest deliveries of a webhook,
+// newest first (admin only)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getCurrentUser();
+  const { id } = await params;
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!can(user, "webhook.manage")) {
+    return NextResponse.json({ error: "Admins only" }, { status: 403 });
+  }
+
+  try {
+    const deliveries = await prisma.webhookDelivery.findMany({
+      where: { webhookId: id },
+      select: webhookDeliverySelect,
+      orderBy: {
+        createdAt: "desc",
+      },
+      take: DELIVERY_LOG_LIMIT,
+    });
+
+    return NextResponse.json(deliveries);
+  } catch (error) {
+    console.error("Error fetching webhook deliveries:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch deliveries" },
+      { status: 500 }
+    );
+  }
+}
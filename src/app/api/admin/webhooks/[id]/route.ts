@@ -0,0 +1,96 @@
+import { prisma } from "@/lib/prisma";
+import { can, getCurrentUser } from "@/lib/permissions";
+import { webhookUpdateSchema } from "@/lib/webhooks";
+import { NextRequest, NextResponse } from "next/server";
+
+// PATCH /api/admin/webhooks/[id] - Change a webhook's URL or events, or pause
+// it (admin only)
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getCurrentUser();
+  const { id } = await params;
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!can(user, "webhook.manage")) {
+    return NextResponse.json({ error: "Admins only" }, { status: 403 });
+  }
+
+  try {
+    const parsed = webhookUpdateSchema.safeParse(
+      await request.json().catch(() => null)
+    );
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.webhook.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: "Webhook not found" }, { status: 404 });
+    }
+
+    const webhook = await prisma.webhook.update({
+      where: { id },
+      data: parsed.data,
+    });
+
+    return NextResponse.json(webhook);
+  } catch (error) {
+    console.error("Error updating webhook:", error);
+    return NextResponse.json(
+      { error: "Failed to update webhook" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/admin/webhooks/[id] - Remove a webhook and its delivery log
+// (admin only)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getCurrentUser();
+  const { id } = await params;
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!can(user, "webhook.manage")) {
+    return NextResponse.json({ error: "Admins only" }, { status: 403 });
+  }
+
+  try {
+    const webhook = await prisma.webhook.findUnique({
+      where: { id },
+    });
+
+    if (!webhook) {
+      return NextResponse.json({ error: "Webhook not found" }, { status: 404 });
+    }
+
+    await prisma.webhook.delete({
+      where: { id },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error removing webhook:", error);
+    return NextResponse.json(
+      { error: "Failed to remove webhook" },
+      { status: 500 }
+    );
+  }
+}
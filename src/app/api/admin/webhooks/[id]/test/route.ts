@@ -0,0 +1,42 @@
+import { prisma } from "@/lib/prisma";
+import { can, getCurrentUser } from "@/lib/permissions";
+import { sendTestDelivery } from "@/lib/webhooks";
+import { NextRequest, NextResponse } from "next/server";
+
+// POST /api/admin/webhooks/[id]/test - Send a test event right away and
+// return the logged delivery (admin only)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getCurrentUser();
+  const { id } = await params;
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!can(user, "webhook.manage")) {
+    return NextResponse.json({ error: "Admins only" }, { status: 403 });
+  }
+
+  try {
+    const webhook = await prisma.webhook.findUnique({
+      where: { id },
+    });
+
+    if (!webhook) {
+      return NextResponse.json({ error: "Webhook not found" }, { status: 404 });
+    }
+
+    const delivery = await sendTestDelivery(webhook.id);
+
+    return NextResponse.json(delivery, { status: 201 });
+  } catch (error) {
+    console.error("Error sending test webhook:", error);
+    return NextResponse.json(
+      { error: "Failed to send test delivery" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+import { prisma } from "@/lib/prisma";
+import { can, getCurrentUser } from "@/lib/permissions";
+import { generateWebhookSecret, webhookSchema } from "@/lib/webhooks";
+import { NextRequest, NextResponse } from "next/server";
+
+// GET /api/admin/webhooks - List webhooks (admin only)
+export async function GET() {
+  const user = await getCurrentUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!can(user, "webhook.manage")) {
+    return NextResponse.json({ error: "Admins only" }, { status: 403 });
+  }
+
+  try {
+    const webhooks = await prisma.webhook.findMany({
+      orderBy: {
+        createdAt: "asc",
+      },
+    });
+
+    return NextResponse.json(webhooks);
+  } catch (error) {
+    console.error("Error fetching webhooks:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch webhooks" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/admin/webhooks - Subscribe a URL to library events (admin only)
+export async function POST(request: NextRequest) {
+  const user = await getCurrentUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!can(user, "webhook.manage")) {
+    return NextResponse.json({ error: "Admins only" }, { status: 403 });
+  }
+
+  try {
+    const parsed = webhookSchema.safeParse(
+      await request.json().catch(() => null)
+    );
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const webhook = await prisma.webhook.create({
+      data: {
+        ...parsed.data,
+        secret: generateWebhookSecret(),
+        createdById: user.id,
+      },
+    });
+
+    return NextResponse.json(webhook, { status: 201 });
+  } catch (error) {
+    console.error("Error creating webhook:", error);
+    return NextResponse.json(
+      { error: "Failed to create webhook" },
+      { status: 500 }
+    );
+  }
+}
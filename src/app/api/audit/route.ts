@@ -0,0 +1,87 @@
+import { prisma } from "@/lib/prisma";
+import { can, getCurrentUser } from "@/lib/permissions";
+import { Prisma } from "@prisma/client";
+import { NextRequest, NextResponse } from "next/server";
+import * as z from "zod";
+
+const auditQuerySchema = z.object({
+  actorId: z.string().optional(),
+  action: z.string().optional(),
+  entityType: z.string().optional(),
+  entityId: z.string().optional(),
+  from: z.coerce.date({ error: "Invalid from date" }).optional(),
+  to: z.coerce.date({ error: "Invalid to date" }).optional(),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+// GET /api/audit - Browse the audit log, newest first (admin only)
+export async function GET(request: NextRequest) {
+  const user = await getCurrentUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!can(user, "audit.read")) {
+    return NextResponse.json({ error: "Admins only" }, { status: 403 });
+  }
+
+  const parsed = auditQuerySchema.safeParse(
+    Object.fromEntries(request.nextUrl.searchParams)
+  );
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues[0].message },
+      { status: 400 }
+    );
+  }
+
+  const { actorId, action, entityType, entityId, from, to, cursor, limit } =
+    parsed.data;
+
+  const where: Prisma.AuditEventWhereInput = {
+    actorId,
+    action,
+    entityType,
+    entityId,
+  };
+  if (from || to) {
+    where.createdAt = { gte: from, lte: to };
+  }
+
+  try {
+    const events = await prisma.auditEvent.findMany({
+      where,
+      include: {
+        actor: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+            image: true,
+          },
+        },
+      },
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      // Fetch one extra event to know whether there is a next page
+      take: limit + 1,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+    });
+
+    const hasMore = events.length > limit;
+    const page = hasMore ? events.slice(0, limit) : events;
+
+    return NextResponse.json({
+      events: page,
+      nextCursor: hasMore ? page[page.length - 1].id : null,
+    });
+  } catch (error) {
+    console.error("Error fetching audit events:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch audit events" },
+      { status: 500 }
+    );
+  }
+}
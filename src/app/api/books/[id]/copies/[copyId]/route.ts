@@ -0,0 +1,208 @@
+import {
+  authorize,
+  getCurrentUser,
+  getOverrideReason,
+} from "@/lib/permissions";
+import { prisma } from "@/lib/prisma";
+import { recordAudit } from "@/lib/audit";
+import { copySchema } from "@/lib/copies";
+import { syncHoldQueue } from "@/lib/holds";
+import { Prisma } from "@prisma/client";
+import { NextRequest, NextResponse } from "next/server";
+
+// PATCH /api/books/[id]/copies/[copyId] - Update a copy (copy owner only)
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; copyId: string }> }
+) {
+  const user = await getCurrentUser();
+  const { id, copyId } = await params;
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json().catch(() => null);
+    const parsed = copySchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const copy = await prisma.bookCopy.findUnique({
+      where: { id: copyId },
+    });
+
+    if (!copy || copy.bookId !== id || copy.retiredAt) {
+      return NextResponse.json({ error: "Copy not found" }, { status: 404 });
+    }
+
+    // Only the copy owner can edit, unless a librarian steps in
+    const access = authorize(user, "copy.update", {
+      ownerId: copy.ownerId,
+      reason: getOverrideReason(body),
+      deniedMessage: "Only the owner can edit this copy",
+    });
+    if (!access.allowed) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      );
+    }
+
+    const updated = await prisma.bookCopy.update({
+      where: { id: copyId },
+      data: parsed.data,
+      include: {
+        owner: {
+          select: {
+            id: true,
+            name: true,
+            image: true,
+          },
+        },
+      },
+    });
+
+    await recordAudit(user, {
+      action: "copy.update",
+      entity: { type: "copy", id: copyId },
+      before: copy,
+      after: updated,
+      reason: access.overrideReason,
+    });
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      return NextResponse.json(
+        { error: "A copy with this barcode already exists" },
+        { status: 409 }
+      );
+    }
+
+    console.error("Error updating copy:", error);
+    return NextResponse.json(
+      { error: "Failed to update copy" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/books/[id]/copies/[copyId] - Remove a copy (copy owner only).
+// The copy is retired rather than deleted, so its loan history stays.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; copyId: string }> }
+) {
+  const user = await getCurrentUser();
+  const { id, copyId } = await params;
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const copy = await prisma.bookCopy.findUnique({
+      where: { id: copyId },
+      include: {
+        rentals: {
+          where: {
+            returnedAt: null,
+          },
+        },
+      },
+    });
+
+    if (!copy || copy.bookId !== id || copy.retiredAt) {
+      return NextResponse.json({ error: "Copy not found" }, { status: 404 });
+    }
+
+    // Only the copy owner can remove it, unless a librarian steps in
+    const body = await request.json().catch(() => ({}));
+    const access = authorize(user, "copy.delete", {
+      ownerId: copy.ownerId,
+      reason: getOverrideReason(body),
+      deniedMessage: "Only the owner can remove this copy",
+    });
+    if (!access.allowed) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      );
+    }
+
+    if (copy.rentals.length > 0) {
+      return NextResponse.json(
+        { error: "This copy is currently rented" },
+        { status: 400 }
+      );
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      // Serializes removals of the book's copies, so concurrent ones cannot
+      // all pass the last copy check. Held until the transaction ends.
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`copies:${id}`}))`;
+
+      const copyCount = await tx.bookCopy.count({
+        where: { bookId: id, retiredAt: null },
+      });
+      if (copyCount <= 1) return "last";
+
+      // Not if it was rented or retired in the meantime
+      const { count } = await tx.bookCopy.updateMany({
+        where: {
+          id: copyId,
+          retiredAt: null,
+          rentals: { none: { returnedAt: null } },
+        },
+        // The barcode is freed for another copy
+        data: { retiredAt: new Date(), barcode: null },
+      });
+      if (count === 0) return "rented";
+
+      await recordAudit(
+        user,
+        {
+          action: "copy.delete",
+          entity: { type: "copy", id: copyId },
+          before: copy,
+          reason: access.overrideReason,
+        },
+        tx
+      );
+      return "retired";
+    });
+
+    if (result === "last") {
+      return NextResponse.json(
+        { error: "The last copy cannot be removed, delete the book instead" },
+        { status: 400 }
+      );
+    }
+    if (result === "rented") {
+      return NextResponse.json(
+        { error: "This copy is currently rented" },
+        { status: 409 }
+      );
+    }
+
+    // Claims on free copies may now outnumber them
+    await syncHoldQueue(id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error removing copy:", error);
+    return NextResponse.json(
+      { error: "Failed to remove copy" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,87 @@
+import { can, getCurrentUser } from "@/lib/permissions";
+import { prisma } from "@/lib/prisma";
+import { recordAudit } from "@/lib/audit";
+import { copySchema } from "@/lib/copies";
+import { syncHoldQueue } from "@/lib/holds";
+import { Prisma } from "@prisma/client";
+import { NextRequest, NextResponse } from "next/server";
+
+// POST /api/books/[id]/copies - Add a physical copy of a book
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getCurrentUser();
+  const { id } = await params;
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!can(user, "copy.create")) {
+    return NextResponse.json(
+      { error: "You are not allowed to add copies" },
+      { status: 403 }
+    );
+  }
+
+  try {
+    const parsed = copySchema.safeParse(await request.json().catch(() => null));
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const book = await prisma.book.findUnique({
+      where: { id, deletedAt: null },
+    });
+
+    if (!book) {
+      return NextResponse.json({ error: "Book not found" }, { status: 404 });
+    }
+
+    const copy = await prisma.bookCopy.create({
+      data: {
+        ...parsed.data,
+        bookId: id,
+        ownerId: user.id,
+      },
+      include: {
+        owner: {
+          select: {
+            id: true,
+            name: true,
+            image: true,
+          },
+        },
+      },
+    });
+
+    await recordAudit(user, {
+      action: "copy.create",
+      entity: { type: "copy", id: copy.id },
+      after: copy,
+    });
+
+    // The new copy can go straight to the next person in the hold queue
+    await syncHoldQueue(id);
+
+    return NextResponse.json(copy, { status: 201 });
+  } catch (error) {
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      return NextResponse.json(
+        { error: "A copy with this barcode already exists" },
+        { status: 409 }
+      );
+    }
+
+    console.error("Error adding copy:", error);
+    return NextResponse.json({ error: "Failed to add copy" }, { status: 500 });
+  }
+}
@@ -0,0 +1,149 @@
+import { getCurrentUser } from "@/lib/permissions";
+import { prisma } from "@/lib/prisma";
+import { syncHoldQueue } from "@/lib/holds";
+import { Prisma } from "@prisma/client";
+import { NextRequest, NextResponse } from "next/server";
+
+// POST /api/books/[id]/holds - Join the hold queue of a rented book
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getCurrentUser();
+  const { id } = await params;
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const book = await prisma.book.findUnique({
+      where: { id, deletedAt: null },
+      include: {
+        rentals: {
+          where: {
+            returnedAt: null,
+          },
+        },
+        _count: {
+          select: {
+            copies: { where: { retiredAt: null } },
+          },
+        },
+      },
+    });
+
+    if (!book) {
+      return NextResponse.json({ error: "Book not found" }, { status: 404 });
+    }
+
+    if (book.rentals.some((rental) => rental.userId === user.id)) {
+      return NextResponse.json(
+        { error: "You are already renting this book" },
+        { status: 400 }
+      );
+    }
+
+    const queue = await syncHoldQueue(id);
+
+    // A hold only makes sense once every free copy is claimed by the queue
+    const freeCopies = book._count.copies - book.rentals.length;
+    if (freeCopies > queue.length) {
+      return NextResponse.json(
+        { error: "Book is available, rent it instead" },
+        { status: 400 }
+      );
+    }
+
+    if (queue.some((hold) => hold.userId === user.id)) {
+      return NextResponse.json(
+        { error: "You are already in the queue for this book" },
+        { status: 400 }
+      );
+    }
+
+    const hold = await prisma.hold.create({
+      data: {
+        bookId: id,
+        userId: user.id,
+      },
+      include: {
+        user: {
+          select: {
+            id: true,
+            name: true,
+            image: true,
+          },
+        },
+      },
+    });
+
+    return NextResponse.json(
+      { ...hold, position: queue.length + 1 },
+      { status: 201 }
+    );
+  } catch (error) {
+    // Another request placed the same hold in the meantime
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      return NextResponse.json(
+        { error: "You are already in the queue for this book" },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error placing hold:", error);
+    return NextResponse.json(
+      { error: "Failed to place hold" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/books/[id]/holds - Leave the hold queue
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getCurrentUser();
+  const { id } = await params;
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const hold = await prisma.hold.findUnique({
+      where: {
+        bookId_userId: {
+          bookId: id,
+          userId: user.id,
+        },
+      },
+    });
+
+    if (!hold) {
+      return NextResponse.json(
+        { error: "You are not in the queue for this book" },
+        { status: 404 }
+      );
+    }
+
+    await prisma.hold.delete({
+      where: { id: hold.id },
+    });
+
+    // Pass a released claim on to the next person in line
+    await syncHoldQueue(id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error cancelling hold:", error);
+    return NextResponse.json(
+      { error: "Failed to cancel hold" },
+      { status: 500 }
+    );
+  }
+}
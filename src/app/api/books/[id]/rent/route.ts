@@ -1,102 +1,290 @@
-import { auth } from "@/lib/auth";
+import {
+  authorize,
+  getCurrentUser,
+  getOverrideReason,
+} from "@/lib/permissions";
 import { prisma } from "@/lib/prisma";
-import { NextRequest, NextResponse } from "next/server";
+import { recordAudit } from "@/lib/audit";
+import { notify } from "@/lib/notifications";
+import {
+  emitWebhookEvent,
+  rentalEventData,
+  sendPendingWebhooks,
+} from "@/lib/webhooks";
+import { calculateDueDate, isRentalConflictError } from "@/lib/rentals";
+import { syncHoldQueue } from "@/lib/holds";
+import { Prisma } from "@prisma/client";
+import { after, NextRequest, NextResponse } from "next/server";
+import * as z from "zod";
 
-// POST /api/books/[id]/rent - Rent a book
+const rentSchema = z.object({ copyId: z.string().optional() });
+
+const returnSchema = z.object({ rentalId: z.string().optional() });
+
+// The bodies are optional, anything but a JSON object counts as none
+async function readOptionalBody(request: NextRequest): Promise<object> {
+  const body = await request.json().catch(() => null);
+  return typeof body === "object" && body !== null && !Array.isArray(body)
+    ? body
+    : {};
+}
+
+// POST /api/books/[id]/rent - Rent a book (any free copy, or the given copyId)
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  const session = await auth();
+  const user = await getCurrentUser();
   const { id } = await params;
 
-  if (!session?.user?.id) {
+  if (!user) {
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   }
 
-  try {
-    const book = await prisma.book.findUnique({
-      where: { id },
-      include: {
-        rentals: {
-          where: {
-            returnedAt: null,
-          },
-        },
-      },
-    });
+  const userId = user.id;
 
-    if (!book) {
-      return NextResponse.json({ error: "Book not found" }, { status: 404 });
-    }
-
-    // Check if book is already rented
-    if (book.rentals.length > 0) {
+  try {
+    // Without a copyId any free copy is rented
+    const parsed = rentSchema.safeParse(await readOptionalBody(request));
+    if (!parsed.success) {
       return NextResponse.json(
-        { error: "Book is already rented" },
+        { error: parsed.error.issues[0].message },
         { status: 400 }
       );
     }
+    const { copyId } = parsed.data;
 
-    const rental = await prisma.rental.create({
-      data: {
-        bookId: id,
-        userId: session.user.id,
-      },
-      include: {
-        book: true,
-        user: {
-          select: {
-            id: true,
-            name: true,
-            image: true,
+    // Check availability and create the rental atomically, so two concurrent
+    // requests cannot both rent the same copy
+    const result = await prisma.$transaction(
+      async (tx) => {
+        const book = await tx.book.findUnique({
+          where: { id, deletedAt: null },
+          include: {
+            copies: {
+              where: {
+                retiredAt: null,
+              },
+              include: {
+                rentals: {
+                  where: {
+                    returnedAt: null,
+                  },
+                },
+              },
+              orderBy: {
+                createdAt: "asc",
+              },
+            },
           },
-        },
+        });
+
+        if (!book) {
+          return { error: "Book not found", status: 404 } as const;
+        }
+
+        if (
+          book.copies.some((copy) =>
+            copy.rentals.some((rental) => rental.userId === userId)
+          )
+        ) {
+          return {
+            error: "You are already renting this book",
+            status: 400,
+          } as const;
+        }
+
+        const freeCopies = book.copies.filter(
+          (copy) => copy.rentals.length === 0
+        );
+
+        let copy = freeCopies[0];
+        if (copyId) {
+          const requested = book.copies.find((c) => c.id === copyId);
+          if (!requested) {
+            return { error: "Copy not found", status: 404 } as const;
+          }
+          if (requested.rentals.length > 0) {
+            return {
+              error: "This copy is already rented",
+              status: 409,
+            } as const;
+          }
+          copy = requested;
+        }
+
+        // Check if all copies are already rented
+        if (!copy) {
+          return { error: "Book is already rented", status: 409 } as const;
+        }
+
+        // Holds at the front of the queue have an exclusive claim on the
+        // free copies
+        const queue = await syncHoldQueue(id, tx);
+        const myHold = queue.find((hold) => hold.userId === userId);
+        const claimCount = queue.filter((hold) => hold.claimExpiresAt).length;
+        if (!myHold?.claimExpiresAt && freeCopies.length <= claimCount) {
+          return {
+            error: "Book is reserved for the next person in the queue",
+            status: 400,
+          } as const;
+        }
+
+        const rental = await tx.rental.create({
+          data: {
+            bookId: id,
+            copyId: copy.id,
+            userId,
+            dueAt: calculateDueDate(),
+          },
+          include: {
+            book: true,
+            copy: true,
+            user: {
+              select: {
+                id: true,
+                name: true,
+                image: true,
+              },
+            },
+          },
+        });
+
+        if (myHold) {
+          await tx.hold.delete({
+            where: { id: myHold.id },
+          });
+        }
+
+        await recordAudit(
+          user,
+          {
+            action: "rental.create",
+            entity: { type: "rental", id: rental.id },
+            after: {
+              bookId: rental.bookId,
+              copyId: rental.copyId,
+              userId: rental.userId,
+              rentedAt: rental.rentedAt,
+              dueAt: rental.dueAt,
+            },
+          },
+          tx
+        );
+
+        // Let the owner of the copy know who has their book
+        if (copy.ownerId !== userId) {
+          await notify(
+            {
+              userId: copy.ownerId,
+              type: "BOOK_RENTED",
+              message: `${rental.user.name ?? "Someone"} borrowed "${book.title}"`,
+              bookId: id,
+              rentalId: rental.id,
+            },
+            tx
+          );
+        }
+
+        await emitWebhookEvent("rental.created", rentalEventData(rental), tx);
+
+        return { rental } as const;
       },
-    });
+      { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+    );
+
+    if ("error" in result) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    // Deliver right away rather than waiting for the scheduled job
+    after(() => sendPendingWebhooks());
 
-    return NextResponse.json(rental, { status: 201 });
+    return NextResponse.json(result.rental, { status: 201 });
   } catch (error) {
+    if (isRentalConflictError(error)) {
+      return NextResponse.json(
+        { error: "Someone else has just rented this copy" },
+        { status: 409 }
+      );
+    }
+
     console.error("Error renting book:", error);
     return NextResponse.json({ error: "Failed to rent book" }, { status: 500 });
   }
 }
 
-// DELETE /api/books/[id]/rent - Return a book
+// DELETE /api/books/[id]/rent - Return a book. Librarians can return someone
+// else's loan by passing its rentalId and a reason.
 export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  const session = await auth();
+  const user = await getCurrentUser();
   const { id } = await params;
 
-  if (!session?.user?.id) {
+  if (!user) {
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   }
 
   try {
-    const activeRental = await prisma.rental.findFirst({
+    const activeRentals = await prisma.rental.findMany({
       where: {
         bookId: id,
         returnedAt: null,
       },
     });
 
-    if (!activeRental) {
+    if (activeRentals.length === 0) {
       return NextResponse.json(
         { error: "No active rental found for this book" },
         { status: 404 }
       );
     }
 
-    // Only the person who rented can return
-    if (activeRental.userId !== session.user.id) {
+    const body = await readOptionalBody(request);
+    const parsed = returnSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+    const { rentalId } = parsed.data;
+
+    const activeRental = rentalId
+      ? activeRentals.find((rental) => rental.id === rentalId)
+      : (activeRentals.find((rental) => rental.userId === user.id) ??
+        // A single loan is unambiguous even without a rentalId
+        (activeRentals.length === 1 ? activeRentals[0] : undefined));
+
+    if (rentalId && !activeRental) {
+      return NextResponse.json({ error: "Rental not found" }, { status: 404 });
+    }
+
+    if (!activeRental) {
       return NextResponse.json(
         { error: "You can only return books you have rented" },
         { status: 403 }
       );
     }
 
+    // Only the person who rented can return, unless a librarian steps in
+    const access = authorize(user, "rental.return", {
+      ownerId: activeRental.userId,
+      reason: getOverrideReason(body),
+      deniedMessage: "You can only return books you have rented",
+    });
+    if (!access.allowed) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      );
+    }
+
     const rental = await prisma.rental.update({
       where: { id: activeRental.id },
       data: {
@@ -104,6 +292,7 @@ export async function DELETE(
       },
       include: {
         book: true,
+        copy: true,
         user: {
           select: {
             id: true,
@@ -114,6 +303,37 @@ export async function DELETE(
       },
     });
 
+    // Let the owner of the copy know, and the borrower when someone else
+    // returned it
+    for (const recipientId of new Set([rental.copy.ownerId, rental.userId])) {
+      if (recipientId === user.id) continue;
+
+      await notify({
+        userId: recipientId,
+        type: "BOOK_RETURNED",
+        message:
+          recipientId === rental.userId
+            ? `Your loan of "${rental.book.title}" was marked as returned`
+            : `${rental.user.name ?? "Someone"} returned "${rental.book.title}"`,
+        bookId: id,
+        rentalId: rental.id,
+      });
+    }
+
+    // Give the next person in the hold queue their claim window
+    await syncHoldQueue(id);
+
+    await recordAudit(user, {
+      action: "rental.return",
+      entity: { type: "rental", id: rental.id },
+      before: { returnedAt: activeRental.returnedAt },
+      after: { returnedAt: rental.returnedAt },
+      reason: access.overrideReason,
+    });
+
+    await emitWebhookEvent("rental.returned", rentalEventData(rental));
+    after(() => sendPendingWebhooks());
+
     return NextResponse.json(rental);
   } catch (error) {
     console.error("Error returning book:", error);
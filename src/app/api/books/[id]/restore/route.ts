@@ -0,0 +1,82 @@
+import {
+  authorize,
+  getCurrentUser,
+  getOverrideReason,
+} from "@/lib/permissions";
+import { prisma } from "@/lib/prisma";
+import { recordAudit } from "@/lib/audit";
+import { NextRequest, NextResponse } from "next/server";
+
+// POST /api/books/[id]/restore - Bring back a deleted book (owner or admin)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getCurrentUser();
+  const { id } = await params;
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const book = await prisma.book.findUnique({
+      where: { id },
+    });
+
+    if (!book) {
+      return NextResponse.json({ error: "Book not found" }, { status: 404 });
+    }
+
+    // Only the owner can restore, unless an admin steps in
+    const body = await request.json().catch(() => ({}));
+    const access = authorize(user, "book.restore", {
+      ownerId: book.ownerId,
+      reason: getOverrideReason(body),
+      deniedMessage: "Only the owner can restore this book",
+    });
+    if (!access.allowed) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      );
+    }
+
+    if (!book.deletedAt) {
+      return NextResponse.json(
+        { error: "This book has not been deleted" },
+        { status: 400 }
+      );
+    }
+
+    const restored = await prisma.book.update({
+      where: { id },
+      data: { deletedAt: null },
+      include: {
+        owner: {
+          select: {
+            id: true,
+            name: true,
+            image: true,
+          },
+        },
+      },
+    });
+
+    await recordAudit(user, {
+      action: "book.restore",
+      entity: { type: "book", id },
+      before: { deletedAt: book.deletedAt },
+      after: { deletedAt: restored.deletedAt },
+      reason: access.overrideReason,
+    });
+
+    return NextResponse.json(restored);
+  } catch (error) {
+    console.error("Error restoring book:", error);
+    return NextResponse.json(
+      { error: "Failed to restore book" },
+      { status: 500 }
+    );
+  }
+}
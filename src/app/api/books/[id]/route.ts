@@ -1,6 +1,46 @@
-import { auth } from "@/lib/auth";
+import {
+  authorize,
+  getCurrentUser,
+  getOverrideReason,
+} from "@/lib/permissions";
 import { prisma } from "@/lib/prisma";
-import { NextRequest, NextResponse } from "next/server";
+import { recordAudit } from "@/lib/audit";
+import {
+  bookEventData,
+  emitWebhookEvent,
+  sendPendingWebhooks,
+} from "@/lib/webhooks";
+import { getAvailability } from "@/lib/rentals";
+import { getHoldQueue } from "@/lib/holds";
+import { updateBookSchema } from "@/lib/books";
+import { connectTags } from "@/lib/tags";
+import { categoriesExist } from "@/lib/categories";
+import { attachCover, findCoverUpload } from "@/lib/uploads";
+import { Prisma } from "@prisma/client";
+import { after, NextRequest, NextResponse } from "next/server";
+
+// What PATCH returns, also recorded before and after in the audit log
+const updatedBookInclude = {
+  owner: {
+    select: {
+      id: true,
+      name: true,
+      image: true,
+    },
+  },
+  categories: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+  tags: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+} satisfies Prisma.BookInclude;
 
 // GET /api/books/[id] - Get a single book
 export async function GET(
@@ -11,7 +51,7 @@ export async function GET(
 
   try {
     const book = await prisma.book.findUnique({
-      where: { id },
+      where: { id, deletedAt: null },
       include: {
         owner: {
           select: {
@@ -20,6 +60,49 @@ export async function GET(
             image: true,
           },
         },
+        categories: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        tags: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        copies: {
+          where: {
+            retiredAt: null,
+          },
+          include: {
+            owner: {
+              select: {
+                id: true,
+                name: true,
+                image: true,
+              },
+            },
+            rentals: {
+              where: {
+                returnedAt: null,
+              },
+              include: {
+                user: {
+                  select: {
+                    id: true,
+                    name: true,
+                    image: true,
+                  },
+                },
+              },
+            },
+          },
+          orderBy: {
+            createdAt: "asc",
+          },
+        },
         rentals: {
           include: {
             user: {
@@ -29,6 +112,12 @@ export async function GET(
                 image: true,
               },
             },
+            copy: {
+              select: {
+                id: true,
+                barcode: true,
+              },
+            },
           },
           orderBy: {
             rentedAt: "desc",
@@ -42,14 +131,20 @@ export async function GET(
     }
 
     type RentalWithUser = (typeof book.rentals)[number];
-    const activeRental = book.rentals.find(
+    const activeRentals = book.rentals.filter(
       (r: RentalWithUser) => !r.returnedAt
     );
+    const holds = await getHoldQueue(id);
 
     return NextResponse.json({
       ...book,
-      isAvailable: !activeRental,
-      currentRental: activeRental || null,
+      ...getAvailability(book.copies.length, activeRentals),
+      copies: book.copies.map(({ rentals, ...copy }) => ({
+        ...copy,
+        currentRental: rentals[0] || null,
+      })),
+      activeRentals,
+      holds,
     });
   } catch (error) {
     console.error("Error fetching book:", error);
@@ -60,44 +155,195 @@ export async function GET(
   }
 }
 
-// DELETE /api/books/[id] - Delete a book (owner only)
-export async function DELETE(
+// PATCH /api/books/[id] - Update book details (owner only)
+export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  const session = await auth();
+  const user = await getCurrentUser();
   const { id } = await params;
 
-  if (!session?.user?.id) {
+  if (!user) {
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   }
 
   try {
+    const body = await request.json().catch(() => null);
+    const parsed = updateBookSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
     const book = await prisma.book.findUnique({
-      where: { id },
+      where: { id, deletedAt: null },
+      include: updatedBookInclude,
     });
 
     if (!book) {
       return NextResponse.json({ error: "Book not found" }, { status: 404 });
     }
 
-    // Only owner can delete
-    if (book.ownerId !== session.user.id) {
+    // Only the owner can edit, unless a librarian steps in
+    const access = authorize(user, "book.update", {
+      ownerId: book.ownerId,
+      reason: getOverrideReason(body),
+      deniedMessage: "Only the owner can edit this book",
+    });
+    if (!access.allowed) {
       return NextResponse.json(
-        { error: "Only the owner can delete this book" },
-        { status: 403 }
+        { error: access.error },
+        { status: access.status }
       );
     }
 
-    // Delete all rentals first, then the book
-    await prisma.rental.deleteMany({
-      where: { bookId: id },
-    });
+    const { tags, categoryIds, coverImage, ...data } = parsed.data;
+
+    if (categoryIds && !(await categoriesExist(categoryIds))) {
+      return NextResponse.json(
+        { error: "Category not found" },
+        { status: 400 }
+      );
+    }
 
-    await prisma.book.delete({
+    // The renditions come with the new cover's upload
+    const coverChanged =
+      coverImage !== undefined && coverImage !== book.coverImage;
+    const cover = !coverChanged
+      ? {}
+      : coverImage
+        ? await findCoverUpload(coverImage, user.id, id)
+        : { coverImage: null, coverThumbnail: null, coverPlaceholder: null };
+    if (!cover) {
+      return NextResponse.json(
+        { error: "Upload or import the cover image first" },
+        { status: 400 }
+      );
+    }
+
+    const updated = await prisma.book.update({
       where: { id },
+      data: {
+        ...data,
+        ...cover,
+        // Given lists replace the current ones
+        ...(tags && {
+          tags: { set: [], connectOrCreate: connectTags(tags) },
+        }),
+        ...(categoryIds && {
+          categories: {
+            set: categoryIds.map((categoryId) => ({ id: categoryId })),
+          },
+        }),
+      },
+      include: updatedBookInclude,
     });
 
+    // Uploads are claimed by whoever made them, owner or librarian
+    if (coverChanged) {
+      await attachCover(id, updated.coverImage, user.id);
+    }
+
+    await recordAudit(user, {
+      action: "book.update",
+      entity: { type: "book", id },
+      before: book,
+      after: updated,
+      reason: access.overrideReason,
+    });
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    console.error("Error updating book:", error);
+    return NextResponse.json(
+      { error: "Failed to update book" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/books/[id] - Delete a book (owner only). The book is only
+// hidden, with its copies and loan history kept until it is purged.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getCurrentUser();
+  const { id } = await params;
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const book = await prisma.book.findUnique({
+      where: { id, deletedAt: null },
+      include: {
+        rentals: {
+          where: {
+            returnedAt: null,
+          },
+        },
+      },
+    });
+
+    if (!book) {
+      return NextResponse.json({ error: "Book not found" }, { status: 404 });
+    }
+
+    // Only the owner can delete, unless a librarian steps in
+    const body = await request.json().catch(() => ({}));
+    const access = authorize(user, "book.delete", {
+      ownerId: book.ownerId,
+      reason: getOverrideReason(body),
+      deniedMessage: "Only the owner can delete this book",
+    });
+    if (!access.allowed) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      );
+    }
+
+    if (book.rentals.length > 0) {
+      return NextResponse.json(
+        { error: "This book is currently rented" },
+        { status: 400 }
+      );
+    }
+
+    await prisma.$transaction(async (tx) => {
+      const deleted = await tx.book.update({
+        where: { id },
+        data: { deletedAt: new Date() },
+      });
+
+      // Nobody can rent a deleted book, so its queue goes away
+      await tx.hold.deleteMany({
+        where: { bookId: id },
+      });
+
+      await recordAudit(
+        user,
+        {
+          action: "book.delete",
+          entity: { type: "book", id },
+          before: { deletedAt: book.deletedAt },
+          after: { deletedAt: deleted.deletedAt },
+          reason: access.overrideReason,
+        },
+        tx
+      );
+
+      await emitWebhookEvent("book.deleted", bookEventData(deleted), tx);
+    });
+
+    // Deliver right away rather than waiting for the scheduled job
+    after(() => sendPendingWebhooks());
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error("Error deleting book:", error);
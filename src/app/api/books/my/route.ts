@@ -1,49 +1,29 @@
-import { auth } from "@/lib/auth";
+import { getCurrentUser } from "@/lib/permissions";
 import { prisma } from "@/lib/prisma";
+import { bookListInclude, withAvailability } from "@/lib/books";
 import { NextResponse } from "next/server";
 
 // GET /api/books/my - Get books owned by the current user
 export async function GET() {
-  const session = await auth();
+  const user = await getCurrentUser();
 
-  if (!session?.user?.id) {
+  if (!user) {
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   }
 
   try {
     const books = await prisma.book.findMany({
       where: {
-        ownerId: session.user.id,
-      },
-      include: {
-        owner: {
-          select: {
-            id: true,
-            name: true,
-            image: true,
-          },
-        },
-        rentals: {
-          where: {
-            returnedAt: null,
-          },
-          include: {
-            user: {
-              select: {
-                id: true,
-                name: true,
-                image: true,
-              },
-            },
-          },
-        },
+        ownerId: user.id,
+        deletedAt: null,
       },
+      include: bookListInclude,
       orderBy: {
         createdAt: "desc",
       },
     });
 
-    return NextResponse.json(books);
+    return NextResponse.json(books.map(withAvailability));
   } catch (error) {
     console.error("Error fetching user books:", error);
     return NextResponse.json(
@@ -1,63 +1,143 @@
-import { auth } from "@/lib/auth";
+import { can, getCurrentUser } from "@/lib/permissions";
 import { prisma } from "@/lib/prisma";
-import { NextRequest, NextResponse } from "next/server";
+import { recordAudit } from "@/lib/audit";
+import {
+  bookEventData,
+  emitWebhookEvent,
+  sendPendingWebhooks,
+} from "@/lib/webhooks";
+import {
+  bookListInclude,
+  createBookSchema,
+  withAvailability,
+} from "@/lib/books";
+import { attachCover, findCoverUpload } from "@/lib/uploads";
+import { connectTags } from "@/lib/tags";
+import {
+  categoriesExist,
+  getCategoryWithDescendantIds,
+} from "@/lib/categories";
+import { Prisma } from "@prisma/client";
+import { after, NextRequest, NextResponse } from "next/server";
+import * as z from "zod";
 
-// GET /api/books - Get all books (public)
+const listQuerySchema = z.object({
+  q: z.string().trim().optional(),
+  available: z.enum(["true", "false"]).optional(),
+  ownerId: z.string().optional(),
+  tag: z.string().trim().toLowerCase().optional(),
+  category: z.string().optional(),
+  // Deleted books instead of the catalog
+  archived: z.enum(["true", "false"]).optional(),
+  sort: z.enum(["title", "author", "newest", "borrowed"]).default("newest"),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(24),
+});
+
+// The id tie-breaker keeps cursor pagination stable
+const sortOrders = {
+  title: [{ title: "asc" }, { id: "asc" }],
+  author: [{ author: "asc" }, { id: "asc" }],
+  newest: [{ createdAt: "desc" }, { id: "desc" }],
+  borrowed: [{ rentals: { _count: "desc" } }, { id: "asc" }],
+} satisfies Record<string, Prisma.BookOrderByWithRelationInput[]>;
+
+// GET /api/books - Search, filter and page through books (public). With
+// archived=true, lists the deleted books the current user may restore.
 export async function GET(request: NextRequest) {
-  const searchParams = request.nextUrl.searchParams;
-  const available = searchParams.get("available");
+  const parsed = listQuerySchema.safeParse(
+    Object.fromEntries(request.nextUrl.searchParams)
+  );
 
-  try {
-    const books = await prisma.book.findMany({
-      include: {
-        owner: {
-          select: {
-            id: true,
-            name: true,
-            image: true,
-          },
-        },
-        rentals: {
-          where: {
-            returnedAt: null,
-          },
-          include: {
-            user: {
-              select: {
-                id: true,
-                name: true,
-                image: true,
-              },
-            },
-          },
-        },
-      },
-      orderBy: {
-        createdAt: "desc",
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues[0].message },
+      { status: 400 }
+    );
+  }
+
+  const {
+    q,
+    available,
+    ownerId,
+    tag,
+    category,
+    archived,
+    sort,
+    cursor,
+    limit,
+  } = parsed.data;
+
+  const where: Prisma.BookWhereInput = { deletedAt: null };
+  if (q) {
+    where.OR = [
+      { title: { contains: q, mode: "insensitive" } },
+      { author: { contains: q, mode: "insensitive" } },
+      { isbn: { contains: q, mode: "insensitive" } },
+      { description: { contains: q, mode: "insensitive" } },
+    ];
+  }
+  if (ownerId) {
+    where.ownerId = ownerId;
+  }
+  if (archived === "true") {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    where.deletedAt = { not: null };
+    // Owners see their own deleted books, admins everyone's
+    if (!can(user, "book.restore")) {
+      where.ownerId = user.id;
+    }
+  }
+  if (tag) {
+    where.tags = { some: { name: tag } };
+  }
+  // A book is available while at least one of its copies is not rented
+  if (available === "true") {
+    where.copies = {
+      some: { retiredAt: null, rentals: { none: { returnedAt: null } } },
+    };
+  } else if (available === "false") {
+    where.copies = {
+      every: {
+        OR: [
+          { retiredAt: { not: null } },
+          { rentals: { some: { returnedAt: null } } },
+        ],
       },
-    });
+    };
+  }
 
-    // Filter by availability if requested
-    type BookWithRentals = (typeof books)[number];
-    let filteredBooks: BookWithRentals[] = books;
-    if (available === "true") {
-      filteredBooks = books.filter(
-        (book: BookWithRentals) => book.rentals.length === 0
-      );
-    } else if (available === "false") {
-      filteredBooks = books.filter(
-        (book: BookWithRentals) => book.rentals.length > 0
-      );
+  try {
+    if (category) {
+      where.categories = {
+        some: { id: { in: await getCategoryWithDescendantIds(category) } },
+      };
     }
 
-    // Transform to include availability status
-    const booksWithStatus = filteredBooks.map((book: BookWithRentals) => ({
-      ...book,
-      isAvailable: book.rentals.length === 0,
-      currentRental: book.rentals[0] || null,
-    }));
+    const [books, total] = await Promise.all([
+      prisma.book.findMany({
+        where,
+        include: bookListInclude,
+        orderBy: sortOrders[sort],
+        // Fetch one extra book to know whether there is a next page
+        take: limit + 1,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+      }),
+      prisma.book.count({ where }),
+    ]);
 
-    return NextResponse.json(booksWithStatus);
+    const hasMore = books.length > limit;
+    const page = hasMore ? books.slice(0, limit) : books;
+
+    return NextResponse.json({
+      books: page.map(withAvailability),
+      nextCursor: hasMore ? page[page.length - 1].id : null,
+      total,
+    });
   } catch (error) {
     console.error("Error fetching books:", error);
     return NextResponse.json(
@@ -69,31 +149,67 @@ export async function GET(request: NextRequest) {
 
 // POST /api/books - Create a new book (authenticated)
 export async function POST(request: NextRequest) {
-  const session = await auth();
+  const user = await getCurrentUser();
 
-  if (!session?.user?.id) {
+  if (!user) {
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   }
 
+  if (!can(user, "book.create")) {
+    return NextResponse.json(
+      { error: "You are not allowed to add books" },
+      { status: 403 }
+    );
+  }
+
   try {
-    const body = await request.json();
-    const { title, author, isbn, description, coverImage } = body;
+    const body = await request.json().catch(() => null);
+    const parsed = createBookSchema.safeParse(body);
 
-    if (!title || !author || !coverImage) {
+    if (!parsed.success) {
       return NextResponse.json(
-        { error: "Title, author and cover image are required" },
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { tags = [], categoryIds = [], coverImage, ...data } = parsed.data;
+
+    if (!(await categoriesExist(categoryIds))) {
+      return NextResponse.json(
+        { error: "Category not found" },
+        { status: 400 }
+      );
+    }
+
+    // Books without a cover get a generated one, see src/lib/generated-covers.ts
+    const cover = coverImage
+      ? await findCoverUpload(coverImage, user.id)
+      : { coverImage: null, coverThumbnail: null, coverPlaceholder: null };
+    if (!cover) {
+      return NextResponse.json(
+        { error: "Upload or import the cover image first" },
         { status: 400 }
       );
     }
 
     const book = await prisma.book.create({
       data: {
-        title,
-        author,
-        isbn,
-        description,
-        coverImage,
-        ownerId: session.user.id,
+        ...data,
+        ...cover,
+        ownerId: user.id,
+        // Every new book starts with the copy its owner brought
+        copies: {
+          create: {
+            ownerId: user.id,
+          },
+        },
+        categories: {
+          connect: categoryIds.map((id) => ({ id })),
+        },
+        tags: {
+          connectOrCreate: connectTags(tags),
+        },
       },
       include: {
         owner: {
@@ -103,9 +219,33 @@ export async function POST(request: NextRequest) {
             image: true,
           },
         },
+        categories: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        tags: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
       },
     });
 
+    await recordAudit(user, {
+      action: "book.create",
+      entity: { type: "book", id: book.id },
+      after: book,
+    });
+
+    await attachCover(book.id, book.coverImage, user.id);
+
+    await emitWebhookEvent("book.created", bookEventData(book));
+    // Deliver right away rather than waiting for the scheduled job
+    after(() => sendPendingWebhooks());
+
     return NextResponse.json(book, { status: 201 });
   } catch (error) {
     console.error("Error creating book:", error);
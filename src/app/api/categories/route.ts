@@ -0,0 +1,104 @@
+import { can, getCurrentUser } from "@/lib/permissions";
+import { prisma } from "@/lib/prisma";
+import { recordAudit } from "@/lib/audit";
+import { createCategorySchema, getCategoryTree } from "@/lib/categories";
+import { Prisma } from "@prisma/client";
+import { NextRequest, NextResponse } from "next/server";
+
+// GET /api/categories - Category tree with book counts (public)
+export async function GET() {
+  try {
+    return NextResponse.json(await getCategoryTree());
+  } catch (error) {
+    console.error("Error fetching categories:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch categories" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/categories - Create a category, optionally below another one
+export async function POST(request: NextRequest) {
+  const user = await getCurrentUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!can(user, "category.create")) {
+    return NextResponse.json(
+      { error: "You are not allowed to create categories" },
+      { status: 403 }
+    );
+  }
+
+  try {
+    const parsed = createCategorySchema.safeParse(
+      await request.json().catch(() => null)
+    );
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { name, parentId } = parsed.data;
+
+    if (parentId) {
+      const parent = await prisma.category.findUnique({
+        where: { id: parentId },
+      });
+      if (!parent) {
+        return NextResponse.json(
+          { error: "Parent category not found" },
+          { status: 404 }
+        );
+      }
+    }
+
+    // The unique index does not cover top-level categories (NULL parent)
+    const existing = await prisma.category.findFirst({
+      where: { name, parentId: parentId ?? null },
+    });
+    if (existing) {
+      return NextResponse.json(
+        { error: "A category with this name already exists here" },
+        { status: 409 }
+      );
+    }
+
+    const category = await prisma.category.create({
+      data: {
+        name,
+        parentId: parentId ?? null,
+      },
+    });
+
+    await recordAudit(user, {
+      action: "category.create",
+      entity: { type: "category", id: category.id },
+      after: category,
+    });
+
+    return NextResponse.json(category, { status: 201 });
+  } catch (error) {
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      return NextResponse.json(
+        { error: "A category with this name already exists here" },
+        { status: 409 }
+      );
+    }
+
+    console.error("Error creating category:", error);
+    return NextResponse.json(
+      { error: "Failed to create category" },
+      { status: 500 }
+    );
+  }
+}
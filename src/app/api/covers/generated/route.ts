@@ -0,0 +1,51 @@
+import { generateCoverSvg } from "@/lib/generated-covers";
+import sharp from "sharp";
+import { NextRequest, NextResponse } from "next/server";
+
+// Longer text would not fit on the cover anyway
+const MAX_TEXT_LENGTH = 200;
+
+// GET /api/covers/generated?title=&author=&isbn=&format= - Cover for a book
+// without one, as SVG or, with format=png, PNG
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const title = searchParams.get("title")?.slice(0, MAX_TEXT_LENGTH) ?? "";
+  const author = searchParams.get("author")?.slice(0, MAX_TEXT_LENGTH) ?? "";
+  const isbn = searchParams.get("isbn")?.slice(0, MAX_TEXT_LENGTH);
+
+  if (!title.trim()) {
+    return NextResponse.json({ error: "Title is required" }, { status: 400 });
+  }
+
+  const headers = {
+    // The same parameters always give the same cover
+    "Cache-Control": "public, max-age=31536000, immutable",
+    "X-Content-Type-Options": "nosniff",
+  };
+
+  try {
+    const svg = generateCoverSvg({ title, author, isbn });
+
+    if (searchParams.get("format") === "png") {
+      const png = await sharp(Buffer.from(svg)).png().toBuffer();
+      return new NextResponse(new Uint8Array(png), {
+        headers: { ...headers, "Content-Type": "image/png" },
+      });
+    }
+
+    return new NextResponse(svg, {
+      headers: {
+        ...headers,
+        "Content-Type": "image/svg+xml",
+        "Content-Security-Policy":
+          "default-src 'none'; style-src 'unsafe-inline'",
+      },
+    });
+  } catch (error) {
+    console.error("Error generating cover:", error);
+    return NextResponse.json(
+      { error: "Failed to generate cover" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,23 @@
+import { isCronRequest } from "@/lib/cron";
+import { sendPendingDeliveries } from "@/lib/deliveries";
+import { NextRequest, NextResponse } from "next/server";
+
+// GET /api/cron/deliveries - Send queued notification emails and chat
+// messages (scheduled)
+export async function GET(request: NextRequest) {
+  if (!isCronRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const sent = await sendPendingDeliveries();
+
+    return NextResponse.json({ sent });
+  } catch (error) {
+    console.error("Error sending notifications:", error);
+    return NextResponse.json(
+      { error: "Failed to send notifications" },
+      { status: 500 }
+    );
+  }
+}
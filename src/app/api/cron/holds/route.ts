@@ -0,0 +1,23 @@
+import { isCronRequest } from "@/lib/cron";
+import { syncAllHoldQueues } from "@/lib/holds";
+import { NextRequest, NextResponse } from "next/server";
+
+// GET /api/cron/holds - Drop lapsed hold claims and pass the copies on to
+// the next person in line (scheduled)
+export async function GET(request: NextRequest) {
+  if (!isCronRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const synced = await syncAllHoldQueues();
+
+    return NextResponse.json({ synced });
+  } catch (error) {
+    console.error("Error syncing hold queues:", error);
+    return NextResponse.json(
+      { error: "Failed to sync hold queues" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,23 @@
+import { isCronRequest } from "@/lib/cron";
+import { purgeDeletedBooks } from "@/lib/books";
+import { NextRequest, NextResponse } from "next/server";
+
+// GET /api/cron/purge-books - Remove books deleted longer than the retention
+// period (scheduled)
+export async function GET(request: NextRequest) {
+  if (!isCronRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const purged = await purgeDeletedBooks();
+
+    return NextResponse.json({ purged });
+  } catch (error) {
+    console.error("Error purging deleted books:", error);
+    return NextResponse.json(
+      { error: "Failed to purge deleted books" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,23 @@
+import { isCronRequest } from "@/lib/cron";
+import { sendReminders } from "@/lib/reminders";
+import { NextRequest, NextResponse } from "next/server";
+
+// GET /api/cron/reminders - Email upcoming and overdue return reminders
+// (scheduled)
+export async function GET(request: NextRequest) {
+  if (!isCronRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const sent = await sendReminders();
+
+    return NextResponse.json({ sent });
+  } catch (error) {
+    console.error("Error sending reminders:", error);
+    return NextResponse.json(
+      { error: "Failed to send reminders" },
+      { status: 500 }
+    );
+  }
+}
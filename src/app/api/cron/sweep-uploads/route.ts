@@ -0,0 +1,23 @@
+import { isCronRequest } from "@/lib/cron";
+import { sweepOrphanedUploads } from "@/lib/uploads";
+import { NextRequest, NextResponse } from "next/server";
+
+// GET /api/cron/sweep-uploads - Delete uploaded covers no book uses
+// (scheduled)
+export async function GET(request: NextRequest) {
+  if (!isCronRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const deleted = await sweepOrphanedUploads();
+
+    return NextResponse.json({ deleted });
+  } catch (error) {
+    console.error("Error sweeping uploads:", error);
+    return NextResponse.json(
+      { error: "Failed to sweep uploads" },
+      { status: 500 }
+    );
+  }
+}
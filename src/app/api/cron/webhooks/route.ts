@@ -0,0 +1,23 @@
+import { isCronRequest } from "@/lib/cron";
+import { sendPendingWebhooks } from "@/lib/webhooks";
+import { NextRequest, NextResponse } from "next/server";
+
+// GET /api/cron/webhooks - Send queued webhook deliveries and retry failed
+// ones (scheduled)
+export async function GET(request: NextRequest) {
+  if (!isCronRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const delivered = await sendPendingWebhooks();
+
+    return NextResponse.json({ delivered });
+  } catch (error) {
+    console.error("Error sending webhooks:", error);
+    return NextResponse.json(
+      { error: "Failed to send webhooks" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { getCurrentUser } from "@/lib/permissions";
+import { normalizeIsbn } from "@/lib/isbn";
+import { lookupIsbn } from "@/lib/isbn-lookup";
+import { NextRequest, NextResponse } from "next/server";
+
+// GET /api/isbn/[isbn] - Look up book metadata by ISBN (authenticated)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ isbn: string }> }
+) {
+  const user = await getCurrentUser();
+  const { isbn } = await params;
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const normalized = normalizeIsbn(isbn);
+  if (!normalized) {
+    return NextResponse.json({ error: "Invalid ISBN" }, { status: 400 });
+  }
+
+  try {
+    const metadata = await lookupIsbn(normalized);
+
+    if (!metadata) {
+      return NextResponse.json(
+        { error: "No book found for this ISBN" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(metadata);
+  } catch (error) {
+    console.error("Error looking up ISBN:", error);
+    return NextResponse.json(
+      { error: "Failed to look up ISBN" },
+      { status: 500 }
+    );
+  }
+}
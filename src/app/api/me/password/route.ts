@@ -0,0 +1,92 @@
+import { getCurrentUser } from "@/lib/permissions";
+import { prisma } from "@/lib/prisma";
+import { checkPassword, hashPassword, passwordSchema } from "@/lib/passwords";
+import { NextRequest, NextResponse } from "next/server";
+import * as z from "zod";
+
+const updatePasswordSchema = z.object({
+  currentPassword: z.string().max(200).optional(),
+  password: passwordSchema,
+});
+
+// GET /api/me/password - Whether the current user has a password
+export async function GET() {
+  const user = await getCurrentUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const stored = await prisma.user.findUniqueOrThrow({
+      where: { id: user.id },
+      select: { passwordHash: true },
+    });
+
+    return NextResponse.json({ hasPassword: stored.passwordHash !== null });
+  } catch (error) {
+    console.error("Error fetching password status:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch password status" },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/me/password - Set or change the password of the current user.
+// Changing it takes the current one.
+export async function PUT(request: NextRequest) {
+  const user = await getCurrentUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const parsed = updatePasswordSchema.safeParse(
+      await request.json().catch(() => null)
+    );
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const stored = await prisma.user.findUniqueOrThrow({
+      where: { id: user.id },
+      select: { email: true, passwordHash: true },
+    });
+
+    if (!stored.email) {
+      return NextResponse.json(
+        { error: "Your account has no email to sign in with" },
+        { status: 400 }
+      );
+    }
+
+    if (
+      stored.passwordHash &&
+      !(await checkPassword(stored.email, parsed.data.currentPassword ?? ""))
+    ) {
+      return NextResponse.json(
+        { error: "Current password is wrong" },
+        { status: 403 }
+      );
+    }
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { passwordHash: await hashPassword(parsed.data.password) },
+    });
+
+    return NextResponse.json({ hasPassword: true });
+  } catch (error) {
+    console.error("Error updating password:", error);
+    return NextResponse.json(
+      { error: "Failed to update password" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { getCurrentUser } from "@/lib/permissions";
+import { prisma } from "@/lib/prisma";
+import {
+  preferencesSchema,
+  preferencesSelect,
+  toPreferences,
+  toUserData,
+} from "@/lib/preferences";
+import { NextRequest, NextResponse } from "next/server";
+
+// GET /api/me/preferences - Notification preferences of the current user
+export async function GET() {
+  const user = await getCurrentUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const stored = await prisma.user.findUniqueOrThrow({
+      where: { id: user.id },
+      select: preferencesSelect,
+    });
+
+    return NextResponse.json(toPreferences(stored));
+  } catch (error) {
+    console.error("Error fetching preferences:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch preferences" },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/me/preferences - Replace the notification preferences of the
+// current user
+export async function PUT(request: NextRequest) {
+  const user = await getCurrentUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const parsed = preferencesSchema.safeParse(
+      await request.json().catch(() => null)
+    );
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const stored = await prisma.user.update({
+      where: { id: user.id },
+      data: toUserData(parsed.data),
+      select: preferencesSelect,
+    });
+
+    return NextResponse.json(toPreferences(stored));
+  } catch (error) {
+    console.error("Error updating preferences:", error);
+    return NextResponse.json(
+      { error: "Failed to update preferences" },
+      { status: 500 }
+    );
+  }
+}
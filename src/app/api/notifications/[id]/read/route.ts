@@ -0,0 +1,44 @@
+import { getCurrentUser } from "@/lib/permissions";
+import { prisma } from "@/lib/prisma";
+import { NextRequest, NextResponse } from "next/server";
+
+// POST /api/notifications/[id]/read - Mark one of your notifications as read
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getCurrentUser();
+  const { id } = await params;
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const notification = await prisma.notification.findUnique({
+      where: { id },
+    });
+
+    if (!notification || notification.userId !== user.id) {
+      return NextResponse.json(
+        { error: "Notification not found" },
+        { status: 404 }
+      );
+    }
+
+    const updated = await prisma.notification.update({
+      where: { id },
+      data: {
+        readAt: notification.readAt ?? new Date(),
+      },
+    });
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    console.error("Error marking notification as read:", error);
+    return NextResponse.json(
+      { error: "Failed to update notification" },
+      { status: 500 }
+    );
+  }
+}
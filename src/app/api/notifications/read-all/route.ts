@@ -0,0 +1,32 @@
+import { getCurrentUser } from "@/lib/permissions";
+import { prisma } from "@/lib/prisma";
+import { NextResponse } from "next/server";
+
+// POST /api/notifications/read-all - Mark all your notifications as read
+export async function POST() {
+  const user = await getCurrentUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { count } = await prisma.notification.updateMany({
+      where: {
+        userId: user.id,
+        readAt: null,
+      },
+      data: {
+        readAt: new Date(),
+      },
+    });
+
+    return NextResponse.json({ count });
+  } catch (error) {
+    console.error("Error marking notifications as read:", error);
+    return NextResponse.json(
+      { error: "Failed to update notifications" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,141 @@
+import {
+  authorize,
+  getCurrentUser,
+  getOverrideReason,
+} from "@/lib/permissions";
+import { prisma } from "@/lib/prisma";
+import { recordAudit } from "@/lib/audit";
+import { calculateDueDate, getMaxRenewals } from "@/lib/rentals";
+import { syncHoldQueue } from "@/lib/holds";
+import { NextRequest, NextResponse } from "next/server";
+
+// POST /api/rentals/[id]/renew - Extend the due date of an active rental
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getCurrentUser();
+  const { id } = await params;
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const rental = await prisma.rental.findUnique({
+      where: { id },
+      include: {
+        book: {
+          select: {
+            deletedAt: true,
+          },
+        },
+      },
+    });
+
+    if (!rental) {
+      return NextResponse.json({ error: "Rental not found" }, { status: 404 });
+    }
+
+    // Only the person who rented can renew, unless a librarian steps in
+    const body = await request.json().catch(() => ({}));
+    const access = authorize(user, "rental.renew", {
+      ownerId: rental.userId,
+      reason: getOverrideReason(body),
+      deniedMessage: "You can only renew books you have rented",
+    });
+    if (!access.allowed) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      );
+    }
+
+    if (rental.returnedAt) {
+      return NextResponse.json(
+        { error: "This rental has already been returned" },
+        { status: 400 }
+      );
+    }
+
+    if (rental.book.deletedAt) {
+      return NextResponse.json(
+        { error: "This book has been deleted, please return it" },
+        { status: 400 }
+      );
+    }
+
+    const maxRenewals = getMaxRenewals();
+    if (rental.renewalCount >= maxRenewals) {
+      return NextResponse.json(
+        { error: `Renewal limit of ${maxRenewals} reached` },
+        { status: 400 }
+      );
+    }
+
+    // Someone else is waiting for this book
+    const queue = await syncHoldQueue(rental.bookId);
+    if (queue.length > 0) {
+      return NextResponse.json(
+        { error: "Another user has a hold on this book" },
+        { status: 400 }
+      );
+    }
+
+    // Extend from the current due date, or from now if already overdue
+    const renewFrom = new Date(Math.max(rental.dueAt.getTime(), Date.now()));
+
+    // Renewed only if nothing changed since it was read, so concurrent
+    // renewals cannot go past the limit or extend from a stale due date
+    const { count } = await prisma.rental.updateMany({
+      where: {
+        id,
+        returnedAt: null,
+        dueAt: rental.dueAt,
+        renewalCount: { lt: maxRenewals },
+        book: { deletedAt: null },
+      },
+      data: {
+        dueAt: calculateDueDate(renewFrom),
+        renewalCount: { increment: 1 },
+      },
+    });
+
+    if (count === 0) {
+      return NextResponse.json(
+        { error: "This rental was changed in the meantime, please try again" },
+        { status: 409 }
+      );
+    }
+
+    const renewed = await prisma.rental.findUniqueOrThrow({
+      where: { id },
+      include: {
+        book: true,
+        user: {
+          select: {
+            id: true,
+            name: true,
+            image: true,
+          },
+        },
+      },
+    });
+
+    await recordAudit(user, {
+      action: "rental.renew",
+      entity: { type: "rental", id },
+      before: { dueAt: rental.dueAt, renewalCount: rental.renewalCount },
+      after: { dueAt: renewed.dueAt, renewalCount: renewed.renewalCount },
+      reason: access.overrideReason,
+    });
+
+    return NextResponse.json(renewed);
+  } catch (error) {
+    console.error("Error renewing rental:", error);
+    return NextResponse.json(
+      { error: "Failed to renew rental" },
+      { status: 500 }
+    );
+  }
+}
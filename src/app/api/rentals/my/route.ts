@@ -1,19 +1,20 @@
-import { auth } from "@/lib/auth";
+import { getCurrentUser } from "@/lib/permissions";
 import { prisma } from "@/lib/prisma";
+import { isRentalOverdue } from "@/lib/rentals";
 import { NextResponse } from "next/server";
 
 // GET /api/rentals/my - Get rental history for the current user
 export async function GET() {
-  const session = await auth();
+  const user = await getCurrentUser();
 
-  if (!session?.user?.id) {
+  if (!user) {
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   }
 
   try {
     const rentals = await prisma.rental.findMany({
       where: {
-        userId: session.user.id,
+        userId: user.id,
       },
       include: {
         book: {
@@ -27,6 +28,13 @@ export async function GET() {
             },
           },
         },
+        copy: {
+          select: {
+            id: true,
+            barcode: true,
+            condition: true,
+          },
+        },
         user: {
           select: {
             id: true,
@@ -40,7 +48,12 @@ export async function GET() {
       },
     });
 
-    return NextResponse.json(rentals);
+    return NextResponse.json(
+      rentals.map((rental) => ({
+        ...rental,
+        isOverdue: isRentalOverdue(rental),
+      }))
+    );
   } catch (error) {
     console.error("Error fetching user rentals:", error);
     return NextResponse.json(
@@ -0,0 +1,57 @@
+import { searchBooks } from "@/lib/search";
+import { getCategoryWithDescendantIds } from "@/lib/categories";
+import { NextRequest, NextResponse } from "next/server";
+import * as z from "zod";
+
+const searchQuerySchema = z.object({
+  q: z.string().trim().min(1, "Search query is required").max(200),
+  available: z.enum(["true", "false"]).optional(),
+  tag: z.string().trim().toLowerCase().optional(),
+  category: z.string().optional(),
+  // Results are ranked, so the cursor is simply the offset of the next page
+  cursor: z.coerce.number().int().min(0).default(0),
+  limit: z.coerce.number().int().min(1).max(100).default(24),
+});
+
+// GET /api/search - Ranked full-text and fuzzy search over books (public)
+export async function GET(request: NextRequest) {
+  const parsed = searchQuerySchema.safeParse(
+    Object.fromEntries(request.nextUrl.searchParams)
+  );
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues[0].message },
+      { status: 400 }
+    );
+  }
+
+  const { q, available, tag, category, cursor, limit } = parsed.data;
+
+  try {
+    const { results, total } = await searchBooks({
+      q,
+      available: available === undefined ? undefined : available === "true",
+      tag,
+      categoryIds: category
+        ? await getCategoryWithDescendantIds(category)
+        : undefined,
+      offset: cursor,
+      limit,
+    });
+
+    const nextOffset = cursor + limit;
+
+    return NextResponse.json({
+      books: results,
+      nextCursor: nextOffset < total ? String(nextOffset) : null,
+      total,
+    });
+  } catch (error) {
+    console.error("Error searching books:", error);
+    return NextResponse.json(
+      { error: "Failed to search books" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { prisma } from "@/lib/prisma";
+import { NextResponse } from "next/server";
+
+// GET /api/tags - List tags in use with the number of books for each (public).
+// Deleted books do not count.
+export async function GET() {
+  try {
+    const tags = await prisma.tag.findMany({
+      where: {
+        books: { some: { deletedAt: null } },
+      },
+      include: {
+        _count: {
+          select: {
+            books: { where: { deletedAt: null } },
+          },
+        },
+      },
+      orderBy: {
+        name: "asc",
+      },
+    });
+
+    return NextResponse.json(
+      tags.map(({ _count, ...tag }) => ({
+        ...tag,
+        bookCount: _count.books,
+      }))
+    );
+  } catch (error) {
+    console.error("Error fetching tags:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch tags" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,55 +1,100 @@
 import { NextRequest, NextResponse } from "next/server";
-import { auth } from "@/lib/auth";
-import { put } from "@vercel/blob";
+import { getCurrentUser } from "@/lib/permissions";
+import { storeCover } from "@/lib/covers";
+import { getStorage } from "@/lib/storage";
+import {
+  fetchRemoteImage,
+  inspectImage,
+  MAX_UPLOAD_SIZE,
+  recordUploadAttempt,
+  saveUpload,
+  UploadErrorCode,
+} from "@/lib/uploads";
 
+function uploadError(code: UploadErrorCode, error: string, status: number) {
+  return NextResponse.json({ error, code }, { status });
+}
+
+// Read the uploaded file, or download the image of a JSON { url } body
+async function readImage(request: NextRequest) {
+  if (request.headers.get("content-type")?.includes("application/json")) {
+    const { url } = await request.json().catch(() => ({}));
+    if (typeof url !== "string" || !url.trim()) {
+      return uploadError("INVALID_URL", "No image URL provided", 400);
+    }
+
+    const remote = await fetchRemoteImage(url.trim());
+    return remote.allowed
+      ? remote.data
+      : uploadError(remote.code, remote.error, remote.status);
+  }
+
+  const formData = await request.formData();
+  const file = formData.get("file");
+
+  if (!(file instanceof File)) {
+    return uploadError("NO_FILE", "No file provided", 400);
+  }
+
+  if (file.size > MAX_UPLOAD_SIZE) {
+    return uploadError(
+      "FILE_TOO_LARGE",
+      "File too large. Maximum size is 5MB.",
+      413
+    );
+  }
+
+  return Buffer.from(await file.arrayBuffer());
+}
+
+// POST /api/upload - Upload a book cover, as a file or the URL of an image
+// to re-host. Rejections carry a code (see UploadErrorCode) besides the
+// message.
 export async function POST(request: NextRequest) {
-  const session = await auth();
+  const user = await getCurrentUser();
 
-  if (!session?.user?.id) {
+  if (!user) {
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   }
 
   try {
-    const formData = await request.formData();
-    const file = formData.get("file") as File | null;
-
-    if (!file) {
-      return NextResponse.json({ error: "No file provided" }, { status: 400 });
+    const limits = await recordUploadAttempt(user.id);
+    if (!limits.allowed) {
+      return uploadError(limits.code, limits.error, limits.status);
     }
 
-    // Validate file type
-    const allowedTypes = ["image/jpeg", "image/png", "image/webp", "image/gif"];
-    if (!allowedTypes.includes(file.type)) {
-      return NextResponse.json(
-        {
-          error:
-            "Invalid file type. Only JPEG, PNG, WebP, and GIF are allowed.",
-        },
-        { status: 400 }
-      );
+    const data = await readImage(request);
+    if (data instanceof NextResponse) return data;
+
+    const image = await inspectImage(data);
+    if (!image.allowed) {
+      return uploadError(image.code, image.error, image.status);
     }
 
-    // Validate file size (max 5MB)
-    const maxSize = 5 * 1024 * 1024;
-    if (file.size > maxSize) {
-      return NextResponse.json(
-        { error: "File too large. Maximum size is 5MB." },
-        { status: 400 }
+    // Covers are re-encoded to WebP renditions, never stored as uploaded
+    const cover = await storeCover(data);
+    if (!cover) {
+      return uploadError(
+        "UNREADABLE_IMAGE",
+        "The image could not be read",
+        400
       );
     }
 
-    // Generate unique filename
-    const timestamp = Date.now();
-    const randomString = Math.random().toString(36).substring(2, 8);
-    const extension = file.name.split(".").pop() || "jpg";
-    const filename = `book-covers/${timestamp}-${randomString}.${extension}`;
+    // The quota is checked again with the size of what was stored
+    const saved = await saveUpload(user.id, cover);
+    if (!saved.allowed) {
+      const storage = getStorage();
+      await storage.delete(cover.coverImage);
+      await storage.delete(cover.coverThumbnail);
+      return uploadError(saved.code, saved.error, saved.status);
+    }
 
-    // Upload to Vercel Blob
-    const blob = await put(filename, file, {
-      access: "public",
+    return NextResponse.json({
+      url: cover.coverImage,
+      thumbnailUrl: cover.coverThumbnail,
+      placeholder: cover.coverPlaceholder,
     });
-
-    return NextResponse.json({ url: blob.url });
   } catch (error) {
     console.error("Upload error:", error);
     return NextResponse.json(
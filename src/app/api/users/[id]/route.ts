@@ -0,0 +1,86 @@
+import { prisma } from "@/lib/prisma";
+import { can, getCurrentUser } from "@/lib/permissions";
+import { recordAudit } from "@/lib/audit";
+import { Role } from "@prisma/client";
+import { NextRequest, NextResponse } from "next/server";
+import * as z from "zod";
+
+const updateUserSchema = z.object({
+  role: z.enum(Role),
+});
+
+// PATCH /api/users/[id] - Change a user's role (admin only)
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getCurrentUser();
+  const { id } = await params;
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!can(user, "user.updateRole")) {
+    return NextResponse.json(
+      { error: "Only admins can change roles" },
+      { status: 403 }
+    );
+  }
+
+  try {
+    const parsed = updateUserSchema.safeParse(
+      await request.json().catch(() => null)
+    );
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    // Keep at least one admin around
+    if (id === user.id && parsed.data.role !== "ADMIN") {
+      return NextResponse.json(
+        { error: "You cannot remove your own admin role" },
+        { status: 400 }
+      );
+    }
+
+    const target = await prisma.user.findUnique({
+      where: { id },
+    });
+
+    if (!target) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const updated = await prisma.user.update({
+      where: { id },
+      data: { role: parsed.data.role },
+      select: {
+        id: true,
+        name: true,
+        email: true,
+        image: true,
+        role: true,
+      },
+    });
+
+    await recordAudit(user, {
+      action: "user.updateRole",
+      entity: { type: "user", id },
+      before: { role: target.role },
+      after: { role: updated.role },
+    });
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    console.error("Error updating user:", error);
+    return NextResponse.json(
+      { error: "Failed to update user" },
+      { status: 500 }
+    );
+  }
+}
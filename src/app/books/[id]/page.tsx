@@ -32,14 +32,20 @@ import {
   ArrowLeft,
   BookOpen,
   Trash2,
+  Pencil,
   RotateCcw,
-  ImageIcon,
   Calendar,
   User,
   Hash,
   Loader2,
+  AlertTriangle,
+  BookmarkPlus,
+  BookmarkX,
 } from "lucide-react";
 import { BookDetailSkeleton } from "@/components/loading";
+import { AddBookDialog } from "@/components/add-book-dialog";
+import { AddCopyDialog, conditionLabels } from "@/components/add-copy-dialog";
+import { getGeneratedCoverUrl } from "@/lib/generated-covers";
 
 interface BookOwner {
   id: string;
@@ -56,10 +62,31 @@ interface RentalUser {
 interface Rental {
   id: string;
   rentedAt: string;
+  dueAt: string;
   returnedAt: string | null;
   user: RentalUser;
 }
 
+interface Copy {
+  id: string;
+  barcode: string | null;
+  condition: keyof typeof conditionLabels;
+  owner: BookOwner;
+  currentRental: Rental | null;
+}
+
+interface Hold {
+  id: string;
+  createdAt: string;
+  claimExpiresAt: string | null;
+  user: RentalUser;
+}
+
+interface Classification {
+  id: string;
+  name: string;
+}
+
 interface Book {
   id: string;
   title: string;
@@ -67,11 +94,20 @@ interface Book {
   isbn: string | null;
   description: string | null;
   coverImage: string | null;
+  coverThumbnail: string | null;
+  coverPlaceholder: string | null;
   createdAt: string;
   owner: BookOwner;
+  totalCopies: number;
+  availableCopies: number;
   isAvailable: boolean;
-  currentRental: Rental | null;
+  isOverdue: boolean;
+  categories: Classification[];
+  tags: Classification[];
+  copies: Copy[];
+  activeRentals: Rental[];
   rentals: Rental[];
+  holds: Hold[];
 }
 
 export default function BookDetailPage() {
@@ -107,9 +143,20 @@ export default function BookDetailPage() {
   }, [fetchBook]);
 
   const isOwner = session?.user?.id === book?.owner.id;
-  const isRentedByMe = book?.currentRental?.user.id === session?.user?.id;
-
-  async function handleRent() {
+  const myRental = book?.activeRentals.find(
+    (rental) => rental.user.id === session?.user?.id
+  );
+  const myHoldPosition =
+    (book?.holds.findIndex((hold) => hold.user.id === session?.user?.id) ??
+      -1) + 1;
+  // Holds at the front of the queue have an exclusive claim on free copies
+  const claims = book?.holds.filter((hold) => hold.claimExpiresAt) ?? [];
+  const myClaim = claims.find((hold) => hold.user.id === session?.user?.id);
+  const isClaimedByOther =
+    !!book?.isAvailable && !myClaim && book.availableCopies <= claims.length;
+  const canRent = !!book?.isAvailable && !myRental && !isClaimedByOther;
+
+  async function handleRent(copyId?: string) {
     if (!session) {
       toast.error("Please sign in to rent books");
       return;
@@ -119,6 +166,10 @@ export default function BookDetailPage() {
     try {
       const response = await fetch(`/api/books/${bookId}/rent`, {
         method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ copyId }),
       });
 
       if (!response.ok) {
@@ -160,6 +211,76 @@ export default function BookDetailPage() {
     }
   }
 
+  async function handlePlaceHold() {
+    setActionLoading(true);
+    try {
+      const response = await fetch(`/api/books/${bookId}/holds`, {
+        method: "POST",
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Failed to place hold");
+      }
+
+      const hold = await response.json();
+      toast.success(`You are #${hold.position} in the queue`);
+      fetchBook();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to place hold"
+      );
+    } finally {
+      setActionLoading(false);
+    }
+  }
+
+  async function handleCancelHold() {
+    setActionLoading(true);
+    try {
+      const response = await fetch(`/api/books/${bookId}/holds`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Failed to leave queue");
+      }
+
+      toast.success("You left the queue");
+      fetchBook();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to leave queue"
+      );
+    } finally {
+      setActionLoading(false);
+    }
+  }
+
+  async function handleRemoveCopy(copyId: string) {
+    setActionLoading(true);
+    try {
+      const response = await fetch(`/api/books/${bookId}/copies/${copyId}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Failed to remove copy");
+      }
+
+      toast.success("Copy removed");
+      fetchBook();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to remove copy"
+      );
+    } finally {
+      setActionLoading(false);
+    }
+  }
+
   async function handleDelete() {
     setActionLoading(true);
     try {
@@ -222,12 +343,18 @@ export default function BookDetailPage() {
                 src={book.coverImage}
                 alt={`Cover of ${book.title}`}
                 fill
+                placeholder={book.coverPlaceholder ? "blur" : "empty"}
+                blurDataURL={book.coverPlaceholder ?? undefined}
                 className="object-cover"
               />
             ) : (
-              <div className="w-full h-full flex items-center justify-center">
-                <ImageIcon className="h-20 w-20 sm:h-24 sm:w-24 text-muted-foreground/30" />
-              </div>
+              <Image
+                src={getGeneratedCoverUrl(book)}
+                alt={`Cover of ${book.title}`}
+                fill
+                unoptimized
+                className="object-cover"
+              />
             )}
           </div>
 
@@ -241,10 +368,23 @@ export default function BookDetailPage() {
                 </p>
               </div>
               <Badge
-                variant={book.isAvailable ? "default" : "secondary"}
+                variant={
+                  book.isAvailable
+                    ? "default"
+                    : book.isOverdue
+                      ? "destructive"
+                      : "secondary"
+                }
                 className="text-sm"
               >
-                {book.isAvailable ? "Available" : "Rented"}
+                {book.isOverdue && <AlertTriangle />}
+                {book.isAvailable
+                  ? book.totalCopies > 1
+                    ? `${book.availableCopies} of ${book.totalCopies} available`
+                    : "Available"
+                  : book.isOverdue
+                    ? "Overdue"
+                    : "Rented"}
               </Badge>
             </div>
 
@@ -254,6 +394,21 @@ export default function BookDetailPage() {
               </p>
             )}
 
+            {(book.categories.length > 0 || book.tags.length > 0) && (
+              <div className="flex flex-wrap gap-1.5">
+                {book.categories.map((category) => (
+                  <Badge key={category.id} variant="outline">
+                    {category.name}
+                  </Badge>
+                ))}
+                {book.tags.map((tag) => (
+                  <Badge key={tag.id} variant="secondary">
+                    #{tag.name}
+                  </Badge>
+                ))}
+              </div>
+            )}
+
             {/* Meta info */}
             <div className="flex flex-wrap gap-4 sm:gap-6 text-xs sm:text-sm text-muted-foreground">
               {book.isbn && (
@@ -272,38 +427,169 @@ export default function BookDetailPage() {
               </div>
             </div>
 
-            {/* Current rental info */}
-            {!book.isAvailable && book.currentRental && (
-              <Card>
-                <CardHeader className="pb-3">
-                  <CardTitle className="text-base">Currently Rented</CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <div className="flex items-center gap-3">
-                    <Avatar>
-                      <AvatarImage
-                        src={book.currentRental.user.image || undefined}
-                      />
-                      <AvatarFallback>
-                        {book.currentRental.user.name?.charAt(0) || "?"}
-                      </AvatarFallback>
-                    </Avatar>
-                    <div>
-                      <p className="font-medium">
-                        {book.currentRental.user.name || "Unknown"}
+            {/* Copies */}
+            <Card>
+              <CardHeader className="pb-3 flex flex-row items-center justify-between gap-2">
+                <CardTitle className="text-base">
+                  {book.totalCopies === 1
+                    ? "1 copy"
+                    : `${book.totalCopies} copies`}
+                </CardTitle>
+                {session && (
+                  <AddCopyDialog
+                    bookId={book.id}
+                    bookTitle={book.title}
+                    onCopyAdded={fetchBook}
+                  />
+                )}
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {book.copies.map((copy, index) => (
+                  <div
+                    key={copy.id}
+                    className="flex items-center justify-between gap-3 flex-wrap"
+                  >
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium">
+                        {copy.barcode || `Copy ${index + 1}`}
                       </p>
-                      <p className="text-sm text-muted-foreground">
-                        Since {formatDate(book.currentRental.rentedAt)}
+                      <p className="text-xs text-muted-foreground">
+                        {conditionLabels[copy.condition]} condition · Owned by{" "}
+                        {copy.owner.name || "Unknown"}
                       </p>
                     </div>
+                    {copy.currentRental ? (
+                      <div className="flex items-center gap-2">
+                        <Avatar className="h-8 w-8">
+                          <AvatarImage
+                            src={copy.currentRental.user.image || undefined}
+                          />
+                          <AvatarFallback>
+                            {copy.currentRental.user.name?.charAt(0) || "?"}
+                          </AvatarFallback>
+                        </Avatar>
+                        <div>
+                          <p className="text-sm font-medium">
+                            {copy.currentRental.user.name || "Unknown"}
+                          </p>
+                          <p
+                            className={`text-xs ${
+                              new Date(copy.currentRental.dueAt) < new Date()
+                                ? "text-destructive font-medium"
+                                : "text-muted-foreground"
+                            }`}
+                          >
+                            Due {formatDate(copy.currentRental.dueAt)}
+                          </p>
+                        </div>
+                      </div>
+                    ) : (
+                      <div className="flex items-center gap-2">
+                        {session && canRent && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={actionLoading}
+                            onClick={() => handleRent(copy.id)}
+                          >
+                            Rent this copy
+                          </Button>
+                        )}
+                        {copy.owner.id === session?.user?.id &&
+                          book.totalCopies > 1 && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              disabled={actionLoading}
+                              onClick={() => handleRemoveCopy(copy.id)}
+                              className="h-8 w-8 p-0"
+                            >
+                              <Trash2 className="h-4 w-4 text-destructive" />
+                            </Button>
+                          )}
+                        {!canRent && <Badge variant="outline">Available</Badge>}
+                      </div>
+                    )}
                   </div>
+                ))}
+              </CardContent>
+            </Card>
+
+            {/* Hold queue */}
+            {book.holds.length > 0 && (
+              <Card>
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-base">Hold Queue</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-1 text-sm text-muted-foreground">
+                  <p>
+                    {book.holds.length}{" "}
+                    {book.holds.length === 1 ? "person" : "people"} waiting
+                  </p>
+                  {myClaim ? (
+                    <p className="font-medium text-foreground">
+                      A copy is reserved for you until{" "}
+                      {formatDate(myClaim.claimExpiresAt!)}
+                    </p>
+                  ) : (
+                    myHoldPosition > 0 && (
+                      <p className="font-medium text-foreground">
+                        You are #{myHoldPosition} in the queue
+                      </p>
+                    )
+                  )}
+                  {isClaimedByOther && (
+                    <p>
+                      Free copies are reserved for the next{" "}
+                      {claims.length === 1 ? "person" : "people"} in the queue
+                    </p>
+                  )}
                 </CardContent>
               </Card>
             )}
 
             {/* Actions */}
             <div className="flex gap-3 flex-wrap">
-              {book.isAvailable ? (
+              {myRental ? (
+                <Button
+                  onClick={handleReturn}
+                  disabled={actionLoading}
+                  variant="outline"
+                  size="lg"
+                  className="flex-1 sm:flex-none"
+                >
+                  {actionLoading ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <RotateCcw className="mr-2 h-4 w-4" />
+                  )}
+                  Return this book
+                </Button>
+              ) : myHoldPosition > 0 && !myClaim ? (
+                <Button
+                  onClick={handleCancelHold}
+                  disabled={actionLoading}
+                  variant="outline"
+                  size="lg"
+                  className="flex-1 sm:flex-none"
+                >
+                  {actionLoading ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <BookmarkX className="mr-2 h-4 w-4" />
+                  )}
+                  Leave queue
+                </Button>
+              ) : isClaimedByOther ? (
+                <Button
+                  disabled
+                  variant="secondary"
+                  size="lg"
+                  className="flex-1 sm:flex-none"
+                >
+                  Reserved
+                </Button>
+              ) : book.isAvailable ? (
                 <AlertDialog>
                   <AlertDialogTrigger asChild>
                     <Button
@@ -330,29 +616,46 @@ export default function BookDetailPage() {
                     </AlertDialogHeader>
                     <AlertDialogFooter>
                       <AlertDialogCancel>Cancel</AlertDialogCancel>
-                      <AlertDialogAction onClick={handleRent}>
+                      <AlertDialogAction onClick={() => handleRent()}>
                         Rent
                       </AlertDialogAction>
                     </AlertDialogFooter>
                   </AlertDialogContent>
                 </AlertDialog>
-              ) : isRentedByMe ? (
+              ) : session ? (
                 <Button
-                  onClick={handleReturn}
+                  onClick={handlePlaceHold}
                   disabled={actionLoading}
-                  variant="outline"
                   size="lg"
                   className="flex-1 sm:flex-none"
                 >
                   {actionLoading ? (
                     <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                   ) : (
-                    <RotateCcw className="mr-2 h-4 w-4" />
+                    <BookmarkPlus className="mr-2 h-4 w-4" />
                   )}
-                  Return this book
+                  Place hold
                 </Button>
               ) : null}
 
+              {isOwner && (
+                <AddBookDialog
+                  book={book}
+                  onBookSaved={fetchBook}
+                  trigger={
+                    <Button
+                      variant="outline"
+                      size="lg"
+                      disabled={actionLoading}
+                      className="flex-1 sm:flex-none"
+                    >
+                      <Pencil className="mr-2 h-4 w-4" />
+                      Edit
+                    </Button>
+                  }
+                />
+              )}
+
               {isOwner && (
                 <AlertDialog>
                   <AlertDialogTrigger asChild>
@@ -370,9 +673,9 @@ export default function BookDetailPage() {
                     <AlertDialogHeader>
                       <AlertDialogTitle>Delete book?</AlertDialogTitle>
                       <AlertDialogDescription>
-                        This will permanently delete &quot;{book.title}&quot;
-                        and all its rental history. This action cannot be
-                        undone.
+                        &quot;{book.title}&quot; will be removed from the
+                        library. You can restore it from My Books for a while
+                        before it is deleted for good.
                       </AlertDialogDescription>
                     </AlertDialogHeader>
                     <AlertDialogFooter>
@@ -1,5 +1,11 @@
+import { redirect } from "next/navigation";
+import { AuthError } from "next-auth";
 import { signIn } from "@/lib/auth";
+import { isEmailSignInEnabled } from "@/lib/mail";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
 import {
   Card,
   CardContent,
@@ -7,9 +13,23 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
-import { BookOpen } from "lucide-react";
+import { BookOpen, KeyRound, Mail } from "lucide-react";
+
+// Auth.js sends failed sign-ins back here with the error type
+const errorMessages: Record<string, string> = {
+  CredentialsSignin:
+    "Wrong email or password. After several failed attempts, wait 15 minutes before trying again.",
+  OAuthAccountNotLinked:
+    "This email already signs in another way. Use the method you signed in with first.",
+};
+
+export default async function LoginPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ error?: string }>;
+}) {
+  const { error } = await searchParams;
 
-export default function LoginPage() {
   return (
     <div className="flex min-h-screen items-center justify-center bg-background p-4">
       <Card className="w-full max-w-sm sm:max-w-md">
@@ -22,7 +42,12 @@ export default function LoginPage() {
             Sign in to rent books and manage the library
           </CardDescription>
         </CardHeader>
-        <CardContent>
+        <CardContent className="space-y-6">
+          {error && (
+            <p className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">
+              {errorMessages[error] ?? "Sign in failed, please try again."}
+            </p>
+          )}
           <form
             action={async () => {
               "use server";
@@ -51,6 +76,106 @@ export default function LoginPage() {
               Sign in with Google
             </Button>
           </form>
+          {isEmailSignInEnabled() && (
+            <>
+              <div className="flex items-center gap-3">
+                <Separator className="flex-1" />
+                <span className="text-xs uppercase text-muted-foreground">
+                  or
+                </span>
+                <Separator className="flex-1" />
+              </div>
+              <form
+                className="space-y-3"
+                action={async (formData: FormData) => {
+                  "use server";
+                  await signIn("nodemailer", {
+                    email: formData.get("email"),
+                    redirectTo: "/",
+                  });
+                }}
+              >
+                <div className="space-y-2">
+                  <Label htmlFor="email">Email</Label>
+                  <Input
+                    id="email"
+                    name="email"
+                    type="email"
+                    placeholder="you@example.com"
+                    autoComplete="email"
+                    required
+                  />
+                </div>
+                <Button
+                  type="submit"
+                  variant="outline"
+                  className="w-full h-11 sm:h-12"
+                  size="lg"
+                >
+                  <Mail className="mr-2 h-5 w-5" />
+                  Email me a sign-in link
+                </Button>
+              </form>
+            </>
+          )}
+          <div className="flex items-center gap-3">
+            <Separator className="flex-1" />
+            <span className="text-xs uppercase text-muted-foreground">or</span>
+            <Separator className="flex-1" />
+          </div>
+          <form
+            className="space-y-3"
+            action={async (formData: FormData) => {
+              "use server";
+              try {
+                await signIn("credentials", {
+                  email: formData.get("email"),
+                  password: formData.get("password"),
+                  redirectTo: "/",
+                });
+              } catch (error) {
+                // Anything else is the redirect after signing in
+                if (error instanceof AuthError) {
+                  redirect(`/login?error=${error.type}`);
+                }
+                throw error;
+              }
+            }}
+          >
+            <div className="space-y-2">
+              <Label htmlFor="password-email">Email</Label>
+              <Input
+                id="password-email"
+                name="email"
+                type="email"
+                placeholder="you@example.com"
+                autoComplete="email"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="password">Password</Label>
+              <Input
+                id="password"
+                name="password"
+                type="password"
+                autoComplete="current-password"
+                required
+              />
+            </div>
+            <Button
+              type="submit"
+              variant="outline"
+              className="w-full h-11 sm:h-12"
+              size="lg"
+            >
+              <KeyRound className="mr-2 h-5 w-5" />
+              Sign in with password
+            </Button>
+            <p className="text-center text-xs text-muted-foreground">
+              Set a password in your settings after signing in another way.
+            </p>
+          </form>
         </CardContent>
       </Card>
     </div>
@@ -0,0 +1,58 @@
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { getAllowedDomains } from "@/lib/sign-in-policy";
+import { ShieldX } from "lucide-react";
+
+export default function SignInRejectedPage() {
+  const domains = getAllowedDomains();
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-sm sm:max-w-md">
+        <CardHeader className="text-center space-y-2">
+          <div className="mx-auto w-12 h-12 rounded-full bg-destructive/10 flex items-center justify-center mb-2">
+            <ShieldX className="h-6 w-6 text-destructive" />
+          </div>
+          <CardTitle className="text-xl sm:text-2xl">
+            This account can&apos;t sign in
+          </CardTitle>
+          <CardDescription className="text-sm">
+            The office library is only open to company accounts.
+            {domains.length > 0 && (
+              <>
+                {" "}
+                Please sign in with an address ending in{" "}
+                {domains.map((domain, index) => (
+                  <span key={domain}>
+                    {index > 0 &&
+                      (index === domains.length - 1 ? " or " : ", ")}
+                    <span className="font-medium text-foreground">
+                      @{domain}
+                    </span>
+                  </span>
+                ))}
+                .
+              </>
+            )}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <Button asChild className="w-full h-11 sm:h-12" size="lg">
+            <Link href="/login">Try another account</Link>
+          </Button>
+          <p className="text-center text-xs text-muted-foreground">
+            Need access without a company account? Ask a library admin to add an
+            exception for you.
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { MailCheck } from "lucide-react";
+
+export default function VerifyRequestPage() {
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-sm sm:max-w-md">
+        <CardHeader className="text-center space-y-2">
+          <div className="mx-auto w-12 h-12 rounded-full bg-primary/10 flex items-center justify-center mb-2">
+            <MailCheck className="h-6 w-6 text-primary" />
+          </div>
+          <CardTitle className="text-xl sm:text-2xl">
+            Check your email
+          </CardTitle>
+          <CardDescription className="text-sm">
+            We sent you a sign-in link. It can be used once and expires in 24
+            hours.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button
+            asChild
+            variant="outline"
+            className="w-full h-11 sm:h-12"
+            size="lg"
+          >
+            <Link href="/login">Back to sign in</Link>
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
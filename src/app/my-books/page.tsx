@@ -30,14 +30,19 @@ import {
 import { toast } from "sonner";
 import {
   ArrowLeft,
+  ArchiveRestore,
   ImageIcon,
   Trash2,
+  Pencil,
   RotateCcw,
   Library,
   BookMarked,
   Loader2,
+  CalendarPlus,
 } from "lucide-react";
 import { MyBooksCardSkeleton, EmptyState } from "@/components/loading";
+import { AddBookDialog } from "@/components/add-book-dialog";
+import { getGeneratedCoverUrl } from "@/lib/generated-covers";
 
 interface BookOwner {
   id: string;
@@ -54,9 +59,27 @@ interface RentalUser {
 interface Rental {
   id: string;
   rentedAt: string;
+  dueAt: string;
   returnedAt: string | null;
+  renewalCount: number;
+  isOverdue?: boolean;
   user: RentalUser;
-  book?: Book;
+  book?: RentalBook;
+}
+
+interface RentalBook {
+  id: string;
+  title: string;
+  author: string;
+  isbn: string | null;
+  coverImage: string | null;
+  coverThumbnail: string | null;
+  coverPlaceholder: string | null;
+}
+
+interface Classification {
+  id: string;
+  name: string;
 }
 
 interface Book {
@@ -66,11 +89,24 @@ interface Book {
   isbn: string | null;
   description: string | null;
   coverImage: string | null;
+  coverThumbnail: string | null;
+  coverPlaceholder: string | null;
   createdAt: string;
   owner: BookOwner;
+  totalCopies: number;
+  availableCopies: number;
   isAvailable: boolean;
-  currentRental: Rental | null;
-  rentals?: Rental[];
+  isOverdue: boolean;
+  categories: Classification[];
+  tags: Classification[];
+  activeRentals: Rental[];
+}
+
+interface DeletedBook {
+  id: string;
+  title: string;
+  author: string;
+  deletedAt: string;
 }
 
 export default function MyBooksPage() {
@@ -78,6 +114,7 @@ export default function MyBooksPage() {
   const router = useRouter();
   const [myBooks, setMyBooks] = useState<Book[]>([]);
   const [myRentals, setMyRentals] = useState<Rental[]>([]);
+  const [deletedBooks, setDeletedBooks] = useState<DeletedBook[]>([]);
   const [loading, setLoading] = useState(true);
   const [actionLoading, setActionLoading] = useState<string | null>(null);
 
@@ -85,44 +122,29 @@ export default function MyBooksPage() {
     if (!session?.user?.id) return;
 
     try {
-      // Fetch all books and filter client-side
-      const booksResponse = await fetch("/api/books");
+      const [booksResponse, rentalsResponse, deletedResponse] =
+        await Promise.all([
+          fetch("/api/books/my"),
+          fetch("/api/rentals/my"),
+          fetch(
+            `/api/books?archived=true&ownerId=${session.user.id}&limit=100`
+          ),
+        ]);
+
+      // My owned books
       if (booksResponse.ok) {
-        const allBooks = await booksResponse.json();
-
-        // My owned books
-        const owned = allBooks.filter(
-          (book: Book) => book.owner.id === session.user?.id
-        );
-        setMyBooks(owned);
-
-        // My rentals (current and past)
-        const rentals: Rental[] = [];
-        for (const book of allBooks) {
-          if (book.rentals) {
-            for (const rental of book.rentals) {
-              if (rental.user.id === session.user?.id) {
-                rentals.push({ ...rental, book });
-              }
-            }
-          }
-          // Also check currentRental for books without full rental history
-          if (
-            book.currentRental &&
-            book.currentRental.user.id === session.user?.id
-          ) {
-            const exists = rentals.some((r) => r.id === book.currentRental.id);
-            if (!exists) {
-              rentals.push({ ...book.currentRental, book });
-            }
-          }
-        }
-        // Sort by rentedAt descending
-        rentals.sort(
-          (a, b) =>
-            new Date(b.rentedAt).getTime() - new Date(a.rentedAt).getTime()
-        );
-        setMyRentals(rentals);
+        setMyBooks(await booksResponse.json());
+      }
+
+      // My rentals (current and past)
+      if (rentalsResponse.ok) {
+        setMyRentals(await rentalsResponse.json());
+      }
+
+      // My deleted books that can still be restored
+      if (deletedResponse.ok) {
+        const data = await deletedResponse.json();
+        setDeletedBooks(data.books);
       }
     } catch (error) {
       console.error("Failed to fetch data:", error);
@@ -163,6 +185,30 @@ export default function MyBooksPage() {
     }
   }
 
+  async function handleRenew(rentalId: string, bookTitle: string) {
+    setActionLoading(rentalId);
+    try {
+      const response = await fetch(`/api/rentals/${rentalId}/renew`, {
+        method: "POST",
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Failed to renew book");
+      }
+
+      const rental = await response.json();
+      toast.success(`"${bookTitle}" renewed until ${formatDate(rental.dueAt)}`);
+      fetchData();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to renew book"
+      );
+    } finally {
+      setActionLoading(null);
+    }
+  }
+
   async function handleDelete(bookId: string, bookTitle: string) {
     setActionLoading(bookId);
     try {
@@ -186,6 +232,29 @@ export default function MyBooksPage() {
     }
   }
 
+  async function handleRestore(bookId: string, bookTitle: string) {
+    setActionLoading(bookId);
+    try {
+      const response = await fetch(`/api/books/${bookId}/restore`, {
+        method: "POST",
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Failed to restore book");
+      }
+
+      toast.success(`"${bookTitle}" restored`);
+      fetchData();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to restore book"
+      );
+    } finally {
+      setActionLoading(null);
+    }
+  }
+
   function formatDate(dateString: string) {
     return new Date(dateString).toLocaleDateString("cs-CZ", {
       day: "numeric",
@@ -279,21 +348,31 @@ export default function MyBooksPage() {
                     >
                       {book.coverImage ? (
                         <Image
-                          src={book.coverImage}
+                          src={book.coverThumbnail ?? book.coverImage}
                           alt={book.title}
                           fill
+                          placeholder={book.coverPlaceholder ? "blur" : "empty"}
+                          blurDataURL={book.coverPlaceholder ?? undefined}
                           className="object-cover"
                         />
                       ) : (
-                        <div className="w-full h-full flex items-center justify-center">
-                          <ImageIcon className="h-10 w-10 sm:h-12 sm:w-12 text-muted-foreground/30" />
-                        </div>
+                        <Image
+                          src={getGeneratedCoverUrl(book)}
+                          alt={book.title}
+                          fill
+                          unoptimized
+                          className="object-cover"
+                        />
                       )}
                       <Badge
                         variant={book.isAvailable ? "default" : "secondary"}
                         className="absolute top-2 right-2 text-xs"
                       >
-                        {book.isAvailable ? "Available" : "Rented"}
+                        {book.isAvailable
+                          ? book.totalCopies > 1
+                            ? `${book.availableCopies} of ${book.totalCopies} available`
+                            : "Available"
+                          : "Rented"}
                       </Badge>
                     </Link>
                     <CardHeader className="pb-2 px-3 sm:px-4">
@@ -314,63 +393,122 @@ export default function MyBooksPage() {
                         <span className="text-xs sm:text-sm text-muted-foreground">
                           {formatDate(book.createdAt)}
                         </span>
-                        <AlertDialog>
-                          <AlertDialogTrigger asChild>
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              disabled={actionLoading === book.id}
-                              className="h-8 w-8 p-0"
-                            >
-                              {actionLoading === book.id ? (
-                                <Loader2 className="h-4 w-4 animate-spin" />
-                              ) : (
-                                <Trash2 className="h-4 w-4 text-destructive" />
-                              )}
-                            </Button>
-                          </AlertDialogTrigger>
-                          <AlertDialogContent className="max-w-[90vw] sm:max-w-lg">
-                            <AlertDialogHeader>
-                              <AlertDialogTitle>Delete book?</AlertDialogTitle>
-                              <AlertDialogDescription>
-                                This will permanently delete &quot;
-                                {book.title}
-                                &quot; and all its rental history.
-                              </AlertDialogDescription>
-                            </AlertDialogHeader>
-                            <AlertDialogFooter>
-                              <AlertDialogCancel>Cancel</AlertDialogCancel>
-                              <AlertDialogAction
-                                onClick={() =>
-                                  handleDelete(book.id, book.title)
-                                }
+                        <div className="flex items-center gap-1">
+                          <AddBookDialog
+                            book={book}
+                            onBookSaved={fetchData}
+                            trigger={
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                disabled={actionLoading === book.id}
+                                className="h-8 w-8 p-0"
                               >
-                                Delete
-                              </AlertDialogAction>
-                            </AlertDialogFooter>
-                          </AlertDialogContent>
-                        </AlertDialog>
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                            }
+                          />
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                disabled={actionLoading === book.id}
+                                className="h-8 w-8 p-0"
+                              >
+                                {actionLoading === book.id ? (
+                                  <Loader2 className="h-4 w-4 animate-spin" />
+                                ) : (
+                                  <Trash2 className="h-4 w-4 text-destructive" />
+                                )}
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent className="max-w-[90vw] sm:max-w-lg">
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>
+                                  Delete book?
+                                </AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  &quot;{book.title}&quot; will be removed from
+                                  the library. You can restore it here for a
+                                  while before it is deleted for good.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction
+                                  onClick={() =>
+                                    handleDelete(book.id, book.title)
+                                  }
+                                >
+                                  Delete
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        </div>
                       </div>
-                      {!book.isAvailable && book.currentRental && (
-                        <div className="mt-2 flex items-center gap-2 text-xs text-muted-foreground">
+                      {book.activeRentals.map((rental) => (
+                        <div
+                          key={rental.id}
+                          className="mt-2 flex items-center gap-2 text-xs text-muted-foreground"
+                        >
                           <Avatar className="h-4 w-4 sm:h-5 sm:w-5">
-                            <AvatarImage
-                              src={book.currentRental.user.image || undefined}
-                            />
+                            <AvatarImage src={rental.user.image || undefined} />
                             <AvatarFallback className="text-xs">
-                              {book.currentRental.user.name?.charAt(0) || "?"}
+                              {rental.user.name?.charAt(0) || "?"}
                             </AvatarFallback>
                           </Avatar>
                           <span className="truncate">
-                            Rented by {book.currentRental.user.name}
+                            Rented by {rental.user.name}
                           </span>
                         </div>
-                      )}
+                      ))}
                     </CardContent>
                   </Card>
                 ))}
               </div>
             )}
+
+            {deletedBooks.length > 0 && (
+              <div className="mt-8 sm:mt-10">
+                <h2 className="text-lg font-semibold">Recently deleted</h2>
+                <p className="text-sm text-muted-foreground mb-3 sm:mb-4">
+                  Deleted books keep their rental history and can be restored
+                  until they are removed for good.
+                </p>
+                <div className="space-y-2">
+                  {deletedBooks.map((book) => (
+                    <Card key={book.id} className="py-0">
+                      <CardContent className="flex items-center justify-between gap-3 p-3 sm:p-4">
+                        <div className="min-w-0">
+                          <p className="font-medium line-clamp-1 text-sm sm:text-base">
+                            {book.title}
+                          </p>
+                          <p className="text-xs sm:text-sm text-muted-foreground truncate">
+                            {book.author} · Deleted {formatDate(book.deletedAt)}
+                          </p>
+                        </div>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="h-8 text-xs sm:text-sm shrink-0"
+                          onClick={() => handleRestore(book.id, book.title)}
+                          disabled={actionLoading === book.id}
+                        >
+                          {actionLoading === book.id ? (
+                            <Loader2 className="mr-1.5 h-3 w-3 animate-spin" />
+                          ) : (
+                            <ArchiveRestore className="mr-1.5 h-3 w-3" />
+                          )}
+                          Restore
+                        </Button>
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+              </div>
+            )}
           </TabsContent>
 
           {/* My Rentals */}
@@ -400,9 +538,26 @@ export default function MyBooksPage() {
                         >
                           {rental.book?.coverImage ? (
                             <Image
-                              src={rental.book.coverImage}
+                              src={
+                                rental.book.coverThumbnail ??
+                                rental.book.coverImage
+                              }
                               alt={rental.book?.title || "Book"}
                               fill
+                              placeholder={
+                                rental.book.coverPlaceholder ? "blur" : "empty"
+                              }
+                              blurDataURL={
+                                rental.book.coverPlaceholder ?? undefined
+                              }
+                              className="object-cover"
+                            />
+                          ) : rental.book ? (
+                            <Image
+                              src={getGeneratedCoverUrl(rental.book)}
+                              alt={rental.book.title}
+                              fill
+                              unoptimized
                               className="object-cover"
                             />
                           ) : (
@@ -442,27 +597,56 @@ export default function MyBooksPage() {
                                 → {formatDate(rental.returnedAt)}
                               </span>
                             )}
+                            {!rental.returnedAt && (
+                              <span
+                                className={`ml-3 ${
+                                  rental.isOverdue
+                                    ? "text-destructive font-medium"
+                                    : ""
+                                }`}
+                              >
+                                Due {formatDate(rental.dueAt)}
+                              </span>
+                            )}
                           </div>
                           {!rental.returnedAt && rental.book && (
-                            <Button
-                              variant="outline"
-                              size="sm"
-                              className="mt-2 sm:mt-3 h-8 text-xs sm:text-sm"
-                              onClick={() =>
-                                handleReturn(
-                                  rental.book!.id,
-                                  rental.book!.title
-                                )
-                              }
-                              disabled={actionLoading === rental.book.id}
-                            >
-                              {actionLoading === rental.book.id ? (
-                                <Loader2 className="mr-1.5 h-3 w-3 animate-spin" />
-                              ) : (
-                                <RotateCcw className="mr-1.5 h-3 w-3" />
-                              )}
-                              Return
-                            </Button>
+                            <div className="flex gap-2 mt-2 sm:mt-3">
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                className="h-8 text-xs sm:text-sm"
+                                onClick={() =>
+                                  handleReturn(
+                                    rental.book!.id,
+                                    rental.book!.title
+                                  )
+                                }
+                                disabled={actionLoading === rental.book.id}
+                              >
+                                {actionLoading === rental.book.id ? (
+                                  <Loader2 className="mr-1.5 h-3 w-3 animate-spin" />
+                                ) : (
+                                  <RotateCcw className="mr-1.5 h-3 w-3" />
+                                )}
+                                Return
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                className="h-8 text-xs sm:text-sm"
+                                onClick={() =>
+                                  handleRenew(rental.id, rental.book!.title)
+                                }
+                                disabled={actionLoading === rental.id}
+                              >
+                                {actionLoading === rental.id ? (
+                                  <Loader2 className="mr-1.5 h-3 w-3 animate-spin" />
+                                ) : (
+                                  <CalendarPlus className="mr-1.5 h-3 w-3" />
+                                )}
+                                Renew
+                              </Button>
+                            </div>
                           )}
                         </div>
                       </div>
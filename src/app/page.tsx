@@ -1,6 +1,6 @@
 "use client";
 
-import { useEffect, useState, useCallback } from "react";
+import { useEffect, useState, useCallback, useRef } from "react";
 import { useSession, signIn, signOut } from "next-auth/react";
 import { BookCard } from "@/components/book-card";
 import { AddBookDialog } from "@/components/add-book-dialog";
@@ -24,10 +24,20 @@ import {
 import { Skeleton } from "@/components/ui/skeleton";
 import { Input } from "@/components/ui/input";
 import { ThemeToggle } from "@/components/theme-toggle";
-import { BookGridSkeleton, EmptyState } from "@/components/loading";
+import { NotificationBell } from "@/components/notification-bell";
+import { BookGridSkeleton, EmptyState, Spinner } from "@/components/loading";
 import Link from "next/link";
 import Image from "next/image";
-import { BookOpen, LogOut, Search, Library, Menu, X } from "lucide-react";
+import {
+  BookOpen,
+  LogOut,
+  Search,
+  Library,
+  Menu,
+  Settings,
+  Shield,
+  X,
+} from "lucide-react";
 
 interface BookOwner {
   id: string;
@@ -41,12 +51,33 @@ interface RentalUser {
   image: string | null;
 }
 
-interface CurrentRental {
+interface ActiveRental {
   id: string;
   rentedAt: string;
+  dueAt: string;
   user: RentalUser;
 }
 
+interface HighlightSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+interface BookHighlights {
+  title: HighlightSegment[];
+  author: HighlightSegment[];
+  description: HighlightSegment[] | null;
+}
+
+interface Classification {
+  id: string;
+  name: string;
+}
+
+interface TagWithCount extends Classification {
+  bookCount: number;
+}
+
 interface Book {
   id: string;
   title: string;
@@ -54,53 +85,138 @@ interface Book {
   isbn: string | null;
   description: string | null;
   coverImage: string | null;
+  coverThumbnail: string | null;
+  coverPlaceholder: string | null;
   createdAt: string;
   owner: BookOwner;
+  totalCopies: number;
+  availableCopies: number;
   isAvailable: boolean;
-  currentRental: CurrentRental | null;
+  isOverdue: boolean;
+  activeRentals: ActiveRental[];
+  categories: Classification[];
+  tags: Classification[];
+  highlights?: BookHighlights;
 }
 
 export default function HomePage() {
   const { data: session, status } = useSession();
   const [books, setBooks] = useState<Book[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [isInitialLoad, setIsInitialLoad] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [filter, setFilter] = useState<string>("all");
+  const [tag, setTag] = useState<string>("all");
+  const [tags, setTags] = useState<TagWithCount[]>([]);
+  const [sort, setSort] = useState<string>("newest");
   const [search, setSearch] = useState<string>("");
+  const [debouncedSearch, setDebouncedSearch] = useState<string>("");
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
 
-  const fetchBooks = useCallback(async () => {
-    try {
-      const params = new URLSearchParams();
-      if (filter === "available") params.set("available", "true");
-      if (filter === "rented") params.set("available", "false");
+  // Wait until the user stops typing before searching
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(search.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [search]);
+
+  // The request in flight, aborted when a newer one starts
+  const booksRequestRef = useRef<AbortController | null>(null);
+
+  // Fetch the first page, or the page after the given cursor. A new first
+  // page supersedes whatever was still loading, so stale results never land.
+  const fetchBooks = useCallback(
+    async (cursor?: string) => {
+      if (!cursor) {
+        booksRequestRef.current?.abort();
+        setNextCursor(null);
+      }
+      const controller = new AbortController();
+      booksRequestRef.current = controller;
+
+      try {
+        // Search results come ranked by relevance instead of sorted
+        const params = new URLSearchParams(
+          debouncedSearch ? { q: debouncedSearch } : { sort }
+        );
+        if (filter === "available") params.set("available", "true");
+        if (filter === "rented") params.set("available", "false");
+        if (tag !== "all") params.set("tag", tag);
+        if (cursor) params.set("cursor", cursor);
 
-      const response = await fetch(`/api/books?${params}`);
+        const endpoint = debouncedSearch ? "/api/search" : "/api/books";
+        const response = await fetch(`${endpoint}?${params}`, {
+          signal: controller.signal,
+        });
+        if (response.ok) {
+          const data = await response.json();
+          if (controller.signal.aborted) return;
+          setBooks((prev) => (cursor ? [...prev, ...data.books] : data.books));
+          setNextCursor(data.nextCursor);
+          setTotal(data.total);
+        }
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error("Failed to fetch books:", error);
+      } finally {
+        if (!controller.signal.aborted) setIsInitialLoad(false);
+      }
+    },
+    [filter, tag, sort, debouncedSearch]
+  );
+
+  const fetchTags = useCallback(async () => {
+    try {
+      const response = await fetch("/api/tags");
       if (response.ok) {
-        const data = await response.json();
-        setBooks(data);
+        setTags(await response.json());
       }
     } catch (error) {
-      console.error("Failed to fetch books:", error);
-    } finally {
-      setIsInitialLoad(false);
+      console.error("Failed to fetch tags:", error);
     }
-  }, [filter]);
+  }, []);
 
   useEffect(() => {
     fetchBooks();
   }, [fetchBooks]);
 
-  // Filter books by search term
-  const filteredBooks = books.filter((book) => {
-    if (!search.trim()) return true;
-    const searchLower = search.toLowerCase();
-    return (
-      book.title.toLowerCase().includes(searchLower) ||
-      book.author.toLowerCase().includes(searchLower) ||
-      book.isbn?.toLowerCase().includes(searchLower) ||
-      book.description?.toLowerCase().includes(searchLower)
+  useEffect(() => {
+    fetchTags();
+  }, [fetchTags]);
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || isLoadingMore) return;
+
+    setIsLoadingMore(true);
+    await fetchBooks(nextCursor);
+    setIsLoadingMore(false);
+  }, [nextCursor, isLoadingMore, fetchBooks]);
+
+  // Load the next page when the end of the grid scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting) loadMore();
+      },
+      { rootMargin: "400px" }
     );
-  });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [loadMore]);
+
+  const refreshBooks = useCallback(() => fetchBooks(), [fetchBooks]);
+
+  // New or edited books may bring new tags
+  const handleBookSaved = useCallback(() => {
+    fetchBooks();
+    fetchTags();
+  }, [fetchBooks, fetchTags]);
+
+  const isFiltered = !!debouncedSearch || filter !== "all" || tag !== "all";
 
   return (
     <div className="min-h-screen bg-background">
@@ -127,7 +243,8 @@ export default function HomePage() {
                 <Skeleton className="h-8 w-8 rounded-full" />
               ) : session ? (
                 <>
-                  <AddBookDialog onBookAdded={fetchBooks} />
+                  <AddBookDialog onBookSaved={handleBookSaved} />
+                  <NotificationBell />
                   <DropdownMenu>
                     <DropdownMenuTrigger asChild>
                       <Button
@@ -160,6 +277,20 @@ export default function HomePage() {
                           My Books
                         </Link>
                       </DropdownMenuItem>
+                      <DropdownMenuItem asChild>
+                        <Link href="/settings">
+                          <Settings className="mr-2 h-4 w-4" />
+                          Settings
+                        </Link>
+                      </DropdownMenuItem>
+                      {session.user.role === "ADMIN" && (
+                        <DropdownMenuItem asChild>
+                          <Link href="/admin">
+                            <Shield className="mr-2 h-4 w-4" />
+                            Admin
+                          </Link>
+                        </DropdownMenuItem>
+                      )}
                       <DropdownMenuItem onClick={() => signOut()}>
                         <LogOut className="mr-2 h-4 w-4" />
                         Sign out
@@ -168,7 +299,7 @@ export default function HomePage() {
                   </DropdownMenu>
                 </>
               ) : (
-                <Button onClick={() => signIn("google")} size="sm">
+                <Button onClick={() => signIn()} size="sm">
                   Sign in
                 </Button>
               )}
@@ -177,6 +308,7 @@ export default function HomePage() {
             {/* Mobile menu button */}
             <div className="flex sm:hidden items-center gap-2">
               <ThemeToggle />
+              {session && <NotificationBell />}
               <Button
                 variant="ghost"
                 size="icon"
@@ -218,7 +350,7 @@ export default function HomePage() {
                     </div>
                   </div>
                   <div className="grid grid-cols-2 gap-2">
-                    <AddBookDialog onBookAdded={fetchBooks} />
+                    <AddBookDialog onBookSaved={handleBookSaved} />
                     <Button
                       variant="outline"
                       asChild
@@ -230,6 +362,30 @@ export default function HomePage() {
                       </Link>
                     </Button>
                   </div>
+                  <Button
+                    variant="outline"
+                    asChild
+                    className="w-full"
+                    onClick={() => setMobileMenuOpen(false)}
+                  >
+                    <Link href="/settings">
+                      <Settings className="mr-2 h-4 w-4" />
+                      Settings
+                    </Link>
+                  </Button>
+                  {session.user.role === "ADMIN" && (
+                    <Button
+                      variant="outline"
+                      asChild
+                      className="w-full"
+                      onClick={() => setMobileMenuOpen(false)}
+                    >
+                      <Link href="/admin">
+                        <Shield className="mr-2 h-4 w-4" />
+                        Admin
+                      </Link>
+                    </Button>
+                  )}
                   <Button
                     variant="ghost"
                     className="w-full justify-start"
@@ -240,7 +396,7 @@ export default function HomePage() {
                   </Button>
                 </div>
               ) : (
-                <Button onClick={() => signIn("google")} className="w-full">
+                <Button onClick={() => signIn()} className="w-full">
                   Sign in with Google
                 </Button>
               )}
@@ -256,8 +412,7 @@ export default function HomePage() {
           <div className="flex items-center justify-between">
             <h2 className="text-xl sm:text-2xl font-semibold">Books</h2>
             <span className="text-sm text-muted-foreground">
-              {filteredBooks.length}{" "}
-              {filteredBooks.length === 1 ? "book" : "books"}
+              {total} {total === 1 ? "book" : "books"}
             </span>
           </div>
 
@@ -281,18 +436,49 @@ export default function HomePage() {
                 <SelectItem value="rented">Rented</SelectItem>
               </SelectContent>
             </Select>
+            <Select value={tag} onValueChange={setTag}>
+              <SelectTrigger className="w-full sm:w-40">
+                <SelectValue placeholder="Tag" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Tags</SelectItem>
+                {tags.map((tagOption) => (
+                  <SelectItem key={tagOption.id} value={tagOption.name}>
+                    {tagOption.name} ({tagOption.bookCount})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={debouncedSearch ? "relevance" : sort}
+              onValueChange={setSort}
+              disabled={!!debouncedSearch}
+            >
+              <SelectTrigger className="w-full sm:w-44">
+                <SelectValue placeholder="Sort" />
+              </SelectTrigger>
+              <SelectContent>
+                {debouncedSearch && (
+                  <SelectItem value="relevance">Best match</SelectItem>
+                )}
+                <SelectItem value="newest">Newest</SelectItem>
+                <SelectItem value="title">Title</SelectItem>
+                <SelectItem value="author">Author</SelectItem>
+                <SelectItem value="borrowed">Most borrowed</SelectItem>
+              </SelectContent>
+            </Select>
           </div>
         </div>
 
         {/* Books grid */}
         {isInitialLoad ? (
           <BookGridSkeleton count={6} />
-        ) : filteredBooks.length === 0 ? (
+        ) : books.length === 0 ? (
           <EmptyState
             icon={<BookOpen className="h-12 w-12 text-muted-foreground" />}
-            title={books.length === 0 ? "No books yet" : "No books found"}
+            title={isFiltered ? "No books found" : "No books yet"}
             description={
-              books.length === 0
+              !isFiltered
                 ? session
                   ? "Be the first to add a book to the library!"
                   : "Sign in to add the first book to the library!"
@@ -300,11 +486,18 @@ export default function HomePage() {
             }
           />
         ) : (
-          <div className="grid grid-cols-2 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-3 sm:gap-4 md:gap-6">
-            {filteredBooks.map((book) => (
-              <BookCard key={book.id} book={book} onUpdate={fetchBooks} />
-            ))}
-          </div>
+          <>
+            <div className="grid grid-cols-2 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-3 sm:gap-4 md:gap-6">
+              {books.map((book) => (
+                <BookCard key={book.id} book={book} onUpdate={refreshBooks} />
+              ))}
+            </div>
+            {nextCursor && (
+              <div ref={loadMoreRef} className="flex justify-center py-6">
+                {isLoadingMore && <Spinner />}
+              </div>
+            )}
+          </>
         )}
       </main>
     </div>
@@ -0,0 +1,437 @@
+"use client";
+
+import { useEffect, useState, useCallback } from "react";
+import { useSession } from "next-auth/react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { toast } from "sonner";
+import { ArrowLeft, Loader2 } from "lucide-react";
+import { PageLoader } from "@/components/loading";
+
+type NotificationType =
+  | "BOOK_RENTED"
+  | "BOOK_RETURNED"
+  | "HOLD_READY"
+  | "LOAN_DUE_SOON"
+  | "LOAN_OVERDUE"
+  | "OWNER_LOAN_OVERDUE";
+
+type Channel = "IN_APP" | "EMAIL" | "CHAT";
+
+type DigestFrequency = "OFF" | "DAILY" | "WEEKLY";
+
+interface Preferences {
+  channels: Record<NotificationType, Channel[]>;
+  digestFrequency: DigestFrequency;
+  quietHours: { start: string; end: string } | null;
+  timeZone: string | null;
+  chatWebhookUrl: string | null;
+}
+
+const eventLabels: Record<NotificationType, string> = {
+  HOLD_READY: "A book I'm waiting for is available",
+  LOAN_DUE_SOON: "My loan is due soon",
+  LOAN_OVERDUE: "My loan is overdue",
+  BOOK_RENTED: "Someone borrows my book",
+  BOOK_RETURNED: "My book is returned",
+  OWNER_LOAN_OVERDUE: "Someone is late returning my book",
+};
+
+const channelLabels: Record<Channel, string> = {
+  IN_APP: "In app",
+  EMAIL: "Email",
+  CHAT: "Chat",
+};
+
+const DEFAULT_QUIET_HOURS = { start: "22:00", end: "07:00" };
+
+export default function SettingsPage() {
+  const { status } = useSession();
+  const router = useRouter();
+  const [preferences, setPreferences] = useState<Preferences | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [hasPassword, setHasPassword] = useState(false);
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [savingPassword, setSavingPassword] = useState(false);
+
+  const fetchPreferences = useCallback(async () => {
+    try {
+      const response = await fetch("/api/me/preferences");
+      if (!response.ok) throw new Error();
+      setPreferences(await response.json());
+    } catch (error) {
+      console.error("Failed to fetch preferences:", error);
+      toast.error("Failed to load settings");
+    }
+  }, []);
+
+  const fetchPasswordStatus = useCallback(async () => {
+    try {
+      const response = await fetch("/api/me/password");
+      if (response.ok) {
+        setHasPassword((await response.json()).hasPassword);
+      }
+    } catch (error) {
+      console.error("Failed to fetch password status:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (status === "unauthenticated") {
+      router.push("/login");
+    } else if (status === "authenticated") {
+      fetchPreferences();
+      fetchPasswordStatus();
+    }
+  }, [status, router, fetchPreferences, fetchPasswordStatus]);
+
+  function update(changes: Partial<Preferences>) {
+    setPreferences((current) => current && { ...current, ...changes });
+  }
+
+  function toggleChannel(type: NotificationType, channel: Channel) {
+    if (!preferences) return;
+
+    const channels = preferences.channels[type];
+    update({
+      channels: {
+        ...preferences.channels,
+        [type]: channels.includes(channel)
+          ? channels.filter((c) => c !== channel)
+          : [...channels, channel],
+      },
+    });
+  }
+
+  async function handleSave(e: React.FormEvent) {
+    e.preventDefault();
+    if (!preferences) return;
+
+    setSaving(true);
+    try {
+      const response = await fetch("/api/me/preferences", {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          ...preferences,
+          chatWebhookUrl: preferences.chatWebhookUrl?.trim() || null,
+          // Quiet hours follow the browser's time zone
+          timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Failed to save settings");
+      }
+
+      setPreferences(await response.json());
+      toast.success("Settings saved");
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to save settings"
+      );
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handlePasswordSave(e: React.FormEvent) {
+    e.preventDefault();
+
+    setSavingPassword(true);
+    try {
+      const response = await fetch("/api/me/password", {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          ...(hasPassword && { currentPassword }),
+          password: newPassword,
+        }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Failed to save password");
+      }
+
+      toast.success(hasPassword ? "Password changed" : "Password set");
+      setHasPassword(true);
+      setCurrentPassword("");
+      setNewPassword("");
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to save password"
+      );
+    } finally {
+      setSavingPassword(false);
+    }
+  }
+
+  if (status === "loading" || !preferences) {
+    return <PageLoader />;
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 py-4 sm:py-8 max-w-3xl">
+        {/* Back button */}
+        <Button
+          variant="ghost"
+          onClick={() => router.push("/")}
+          className="mb-4 sm:mb-8 -ml-2"
+        >
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to Library
+        </Button>
+
+        <h1 className="text-2xl sm:text-3xl font-bold mb-4 sm:mb-6">
+          Settings
+        </h1>
+
+        <form onSubmit={handleSave} className="space-y-4 sm:space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Notifications</CardTitle>
+              <CardDescription>
+                Choose where you hear about each event. Leave a row empty to
+                turn it off.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Event</TableHead>
+                    {(Object.keys(channelLabels) as Channel[]).map(
+                      (channel) => (
+                        <TableHead key={channel} className="text-center">
+                          {channelLabels[channel]}
+                        </TableHead>
+                      )
+                    )}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {(Object.keys(eventLabels) as NotificationType[]).map(
+                    (type) => (
+                      <TableRow key={type}>
+                        <TableCell className="whitespace-normal">
+                          {eventLabels[type]}
+                        </TableCell>
+                        {(Object.keys(channelLabels) as Channel[]).map(
+                          (channel) => (
+                            <TableCell key={channel} className="text-center">
+                              <input
+                                type="checkbox"
+                                aria-label={`${eventLabels[type]}: ${channelLabels[channel]}`}
+                                checked={preferences.channels[type].includes(
+                                  channel
+                                )}
+                                onChange={() => toggleChannel(type, channel)}
+                                className="h-4 w-4 accent-primary"
+                              />
+                            </TableCell>
+                          )
+                        )}
+                      </TableRow>
+                    )
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Delivery</CardTitle>
+              <CardDescription>
+                When emails and chat messages reach you.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-5">
+              <div className="space-y-2">
+                <Label htmlFor="chatWebhookUrl">Chat webhook URL</Label>
+                <Input
+                  id="chatWebhookUrl"
+                  type="url"
+                  placeholder="https://hooks.slack.com/services/..."
+                  value={preferences.chatWebhookUrl ?? ""}
+                  onChange={(e) => update({ chatWebhookUrl: e.target.value })}
+                />
+                <p className="text-xs text-muted-foreground">
+                  An incoming webhook of Slack, Google Chat or any chat that
+                  accepts a JSON text message.
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Email digest</Label>
+                <Select
+                  value={preferences.digestFrequency}
+                  onValueChange={(value) =>
+                    update({ digestFrequency: value as DigestFrequency })
+                  }
+                >
+                  <SelectTrigger className="w-full sm:w-64">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="OFF">Send emails right away</SelectItem>
+                    <SelectItem value="DAILY">Daily digest at 8:00</SelectItem>
+                    <SelectItem value="WEEKLY">
+                      Weekly digest on Monday
+                    </SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-3">
+                <Label className="font-medium">
+                  <input
+                    type="checkbox"
+                    checked={preferences.quietHours !== null}
+                    onChange={(e) =>
+                      update({
+                        quietHours: e.target.checked
+                          ? DEFAULT_QUIET_HOURS
+                          : null,
+                      })
+                    }
+                    className="h-4 w-4 accent-primary"
+                  />
+                  Quiet hours
+                </Label>
+                {preferences.quietHours && (
+                  <div className="flex items-center gap-2">
+                    <Input
+                      type="time"
+                      aria-label="Quiet hours start"
+                      value={preferences.quietHours.start}
+                      onChange={(e) =>
+                        update({
+                          quietHours: {
+                            ...preferences.quietHours!,
+                            start: e.target.value,
+                          },
+                        })
+                      }
+                      className="w-32"
+                    />
+                    <span className="text-muted-foreground">to</span>
+                    <Input
+                      type="time"
+                      aria-label="Quiet hours end"
+                      value={preferences.quietHours.end}
+                      onChange={(e) =>
+                        update({
+                          quietHours: {
+                            ...preferences.quietHours!,
+                            end: e.target.value,
+                          },
+                        })
+                      }
+                      className="w-32"
+                    />
+                  </div>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  Emails and chat messages wait until quiet hours are over.
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+
+          <div className="flex justify-end">
+            <Button type="submit" disabled={saving}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save settings
+            </Button>
+          </div>
+        </form>
+
+        <form onSubmit={handlePasswordSave} className="mt-4 sm:mt-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Password</CardTitle>
+              <CardDescription>
+                {hasPassword
+                  ? "Change the password you sign in with."
+                  : "Set a password to sign in with your email and password."}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {hasPassword && (
+                <div className="space-y-2">
+                  <Label htmlFor="currentPassword">Current password</Label>
+                  <Input
+                    id="currentPassword"
+                    type="password"
+                    autoComplete="current-password"
+                    value={currentPassword}
+                    onChange={(e) => setCurrentPassword(e.target.value)}
+                    required
+                    className="sm:w-80"
+                  />
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="newPassword">New password</Label>
+                <Input
+                  id="newPassword"
+                  type="password"
+                  autoComplete="new-password"
+                  minLength={10}
+                  value={newPassword}
+                  onChange={(e) => setNewPassword(e.target.value)}
+                  required
+                  className="sm:w-80"
+                />
+                <p className="text-xs text-muted-foreground">
+                  At least 10 characters.
+                </p>
+              </div>
+              <div className="flex justify-end">
+                <Button type="submit" disabled={savingPassword}>
+                  {savingPassword && (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  )}
+                  {hasPassword ? "Change password" : "Set password"}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+import { readLocalUpload } from "@/lib/storage";
+import { NextRequest, NextResponse } from "next/server";
+
+const contentTypes: Record<string, string> = {
+  avif: "image/avif",
+  gif: "image/gif",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  svg: "image/svg+xml",
+  webp: "image/webp",
+};
+
+// GET /uploads/[...key] - Serve files of the local storage provider. Files
+// added to public/ after the build are not served by Next.js, so uploads
+// need their own route.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ key: string[] }> }
+) {
+  const { key } = await params;
+  const filename = key.join("/");
+
+  const file = await readLocalUpload(filename).catch(() => null);
+  if (!file) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const extension = filename.split(".").pop()?.toLowerCase() ?? "";
+  return new NextResponse(new Uint8Array(file), {
+    headers: {
+      "Content-Type": contentTypes[extension] ?? "application/octet-stream",
+      // Keys are unique, a file never changes once uploaded
+      "Cache-Control": "public, max-age=31536000, immutable",
+      "X-Content-Type-Options": "nosniff",
+    },
+  });
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useRef } from "react";
+import { useState, useRef, useEffect } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
@@ -23,41 +23,173 @@ import {
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { TagInput } from "@/components/tag-input";
 import { toast } from "sonner";
-import { Plus, X, ImageIcon, Loader2 } from "lucide-react";
+import { Plus, Pencil, X, ImageIcon, Loader2, Search } from "lucide-react";
 import Image from "next/image";
+import { normalizeIsbn } from "@/lib/isbn";
 
 const formSchema = z.object({
   title: z.string().min(1, "Title is required"),
   author: z.string().min(1, "Author is required"),
-  isbn: z.string().optional(),
+  isbn: z
+    .string()
+    .optional()
+    .refine((isbn) => !isbn?.trim() || normalizeIsbn(isbn), "Invalid ISBN"),
   description: z.string().optional(),
 });
 
 type FormData = z.infer<typeof formSchema>;
 
+interface Classification {
+  id: string;
+  name: string;
+}
+
+interface EditableBook {
+  id: string;
+  title: string;
+  author: string;
+  isbn: string | null;
+  description: string | null;
+  coverImage: string | null;
+  categories?: Classification[];
+  tags?: Classification[];
+}
+
+interface CategoryNode {
+  id: string;
+  name: string;
+  children: CategoryNode[];
+}
+
+interface CategoryOption {
+  id: string;
+  label: string;
+}
+
+// Flatten the category tree into "Parent › Child" options
+function toCategoryOptions(
+  nodes: CategoryNode[],
+  prefix = ""
+): CategoryOption[] {
+  return nodes.flatMap((node) => {
+    const label = prefix ? `${prefix} › ${node.name}` : node.name;
+    return [{ id: node.id, label }, ...toCategoryOptions(node.children, label)];
+  });
+}
+
 interface AddBookDialogProps {
-  onBookAdded: () => void;
+  onBookSaved: () => void;
+  // When given, the dialog edits this book instead of adding a new one
+  book?: EditableBook;
+  trigger?: React.ReactNode;
 }
 
-export function AddBookDialog({ onBookAdded }: AddBookDialogProps) {
+// Messages for the error codes of POST /api/upload
+const uploadErrorMessages: Record<string, string> = {
+  NO_FILE: "Choose an image to upload",
+  FILE_TOO_LARGE: "The image is larger than 5 MB",
+  UNSUPPORTED_TYPE: "Only JPEG, PNG, WebP and GIF images can be covers",
+  UNREADABLE_IMAGE: "The image seems to be damaged, try another one",
+  ANIMATED_IMAGE: "Animated images can't be covers",
+  DIMENSIONS_TOO_LARGE:
+    "The image is too big, use one at most 6000 pixels wide and high",
+  QUOTA_EXCEEDED: "You have used up your upload space",
+  RATE_LIMITED: "You're uploading too fast, try again in a while",
+};
+
+function getDefaultValues(book?: EditableBook): FormData {
+  return {
+    title: book?.title ?? "",
+    author: book?.author ?? "",
+    isbn: book?.isbn ?? "",
+    description: book?.description ?? "",
+  };
+}
+
+export function AddBookDialog({
+  onBookSaved,
+  book,
+  trigger,
+}: AddBookDialogProps) {
+  const isEdit = !!book;
   const [open, setOpen] = useState(false);
   const [loading, setLoading] = useState(false);
   const [uploading, setUploading] = useState(false);
-  const [coverImage, setCoverImage] = useState<string | null>(null);
-  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [lookingUp, setLookingUp] = useState(false);
+  const [coverImage, setCoverImage] = useState<string | null>(
+    book?.coverImage ?? null
+  );
+  const [coverUrl, setCoverUrl] = useState("");
+  const [previewUrl, setPreviewUrl] = useState<string | null>(
+    book?.coverImage ?? null
+  );
+  const [tags, setTags] = useState<string[]>(
+    book?.tags?.map((tag) => tag.name) ?? []
+  );
+  const [categoryIds, setCategoryIds] = useState<string[]>(
+    book?.categories?.map((category) => category.id) ?? []
+  );
+  const [categoryOptions, setCategoryOptions] = useState<CategoryOption[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const form = useForm<FormData>({
     resolver: zodResolver(formSchema),
-    defaultValues: {
-      title: "",
-      author: "",
-      isbn: "",
-      description: "",
-    },
+    defaultValues: getDefaultValues(book),
   });
 
+  // Load the categories to choose from once the dialog opens
+  useEffect(() => {
+    if (!open) return;
+
+    fetch("/api/categories")
+      .then((response) => (response.ok ? response.json() : []))
+      .then((tree: CategoryNode[]) =>
+        setCategoryOptions(toCategoryOptions(tree))
+      )
+      .catch((error) => console.error("Failed to fetch categories:", error));
+  }, [open]);
+
+  // Upload a file or import an image URL. Either way the server re-encodes
+  // and hosts the image; books only take covers uploaded this way.
+  async function uploadCover(
+    body: BodyInit,
+    headers?: HeadersInit
+  ): Promise<string> {
+    const response = await fetch("/api/upload", {
+      method: "POST",
+      headers,
+      body,
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(
+        uploadErrorMessages[error.code] ||
+          error.error ||
+          "Failed to upload image"
+      );
+    }
+
+    const { url } = await response.json();
+    return url;
+  }
+
+  function importCover(url: string) {
+    return uploadCover(JSON.stringify({ url }), {
+      "Content-Type": "application/json",
+    });
+  }
+
   async function handleFileSelect(e: React.ChangeEvent<HTMLInputElement>) {
     const file = e.target.files?.[0];
     if (!file) return;
@@ -72,18 +204,7 @@ export function AddBookDialog({ onBookAdded }: AddBookDialogProps) {
       const formData = new FormData();
       formData.append("file", file);
 
-      const response = await fetch("/api/upload", {
-        method: "POST",
-        body: formData,
-      });
-
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.error || "Failed to upload image");
-      }
-
-      const { url } = await response.json();
-      setCoverImage(url);
+      setCoverImage(await uploadCover(formData));
       toast.success("Image uploaded!");
     } catch (error) {
       toast.error(
@@ -96,6 +217,70 @@ export function AddBookDialog({ onBookAdded }: AddBookDialogProps) {
     }
   }
 
+  async function handleUrlImport() {
+    const url = coverUrl.trim();
+    if (!url) return;
+
+    setUploading(true);
+    try {
+      const imported = await importCover(url);
+      setCoverImage(imported);
+      setPreviewUrl(imported);
+      setCoverUrl("");
+      toast.success("Image imported!");
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to import image"
+      );
+    } finally {
+      setUploading(false);
+    }
+  }
+
+  async function handleIsbnLookup() {
+    const isbn = normalizeIsbn(form.getValues("isbn") ?? "");
+    if (!isbn) {
+      form.setError("isbn", { message: "Invalid ISBN" });
+      return;
+    }
+
+    setLookingUp(true);
+    try {
+      const response = await fetch(`/api/isbn/${isbn}`);
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Failed to look up ISBN");
+      }
+
+      const metadata = await response.json();
+      form.setValue("isbn", metadata.isbn, { shouldValidate: true });
+      form.setValue("title", metadata.title, { shouldValidate: true });
+      form.setValue("author", metadata.author, { shouldValidate: true });
+      if (metadata.description) {
+        form.setValue("description", metadata.description);
+      }
+      // Keep a cover the user already uploaded. Found covers are re-hosted;
+      // when that fails the book gets a generated one.
+      if (metadata.coverImage && !coverImage) {
+        try {
+          const found = await importCover(metadata.coverImage);
+          setCoverImage(found);
+          setPreviewUrl(found);
+        } catch {
+          toast.warning("The cover found for this ISBN could not be imported");
+        }
+      }
+      toast.success("Book details filled in");
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to look up ISBN"
+      );
+    } finally {
+      setLookingUp(false);
+    }
+  }
+
   function removeCoverImage() {
     setCoverImage(null);
     setPreviewUrl(null);
@@ -105,38 +290,52 @@ export function AddBookDialog({ onBookAdded }: AddBookDialogProps) {
   }
 
   async function onSubmit(data: FormData) {
-    if (!coverImage) {
-      toast.error("Please upload a cover image");
-      return;
-    }
-
     setLoading(true);
     try {
-      const response = await fetch("/api/books", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          ...data,
-          coverImage,
-        }),
-      });
+      const response = await fetch(
+        isEdit ? `/api/books/${book.id}` : "/api/books",
+        {
+          method: isEdit ? "PATCH" : "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            ...data,
+            // Without a cover the book gets a generated one
+            coverImage,
+            tags,
+            categoryIds,
+          }),
+        }
+      );
 
       if (!response.ok) {
         const error = await response.json();
-        throw new Error(error.error || "Failed to add book");
+        throw new Error(
+          error.error ||
+            (isEdit ? "Failed to update book" : "Failed to add book")
+        );
       }
 
-      toast.success("Book added successfully!");
-      form.reset();
-      setCoverImage(null);
-      setPreviewUrl(null);
+      toast.success(
+        isEdit ? "Book updated successfully!" : "Book added successfully!"
+      );
+      if (!isEdit) {
+        form.reset();
+        setCoverImage(null);
+        setPreviewUrl(null);
+        setTags([]);
+        setCategoryIds([]);
+      }
       setOpen(false);
-      onBookAdded();
+      onBookSaved();
     } catch (error) {
       toast.error(
-        error instanceof Error ? error.message : "Failed to add book"
+        error instanceof Error
+          ? error.message
+          : isEdit
+            ? "Failed to update book"
+            : "Failed to add book"
       );
     } finally {
       setLoading(false);
@@ -145,31 +344,75 @@ export function AddBookDialog({ onBookAdded }: AddBookDialogProps) {
 
   function handleOpenChange(newOpen: boolean) {
     setOpen(newOpen);
-    if (!newOpen) {
-      form.reset();
-      setCoverImage(null);
-      setPreviewUrl(null);
+    // Start from the current book details every time the dialog opens
+    if (newOpen || !isEdit) {
+      form.reset(getDefaultValues(book));
+      setCoverImage(book?.coverImage ?? null);
+      setCoverUrl("");
+      setPreviewUrl(book?.coverImage ?? null);
+      setTags(book?.tags?.map((tag) => tag.name) ?? []);
+      setCategoryIds(book?.categories?.map((category) => category.id) ?? []);
     }
   }
 
   return (
     <Dialog open={open} onOpenChange={handleOpenChange}>
       <DialogTrigger asChild>
-        <Button size="sm" className="h-9">
-          <Plus className="mr-1.5 h-4 w-4" />
-          <span className="hidden sm:inline">Add Book</span>
-          <span className="sm:hidden">Add</span>
-        </Button>
+        {trigger ??
+          (isEdit ? (
+            <Button size="sm" variant="outline" className="h-9">
+              <Pencil className="mr-1.5 h-4 w-4" />
+              Edit
+            </Button>
+          ) : (
+            <Button size="sm" className="h-9">
+              <Plus className="mr-1.5 h-4 w-4" />
+              <span className="hidden sm:inline">Add Book</span>
+              <span className="sm:hidden">Add</span>
+            </Button>
+          ))}
       </DialogTrigger>
       <DialogContent className="max-w-[95vw] sm:max-w-[425px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
-          <DialogTitle>Add New Book</DialogTitle>
+          <DialogTitle>{isEdit ? "Edit Book" : "Add New Book"}</DialogTitle>
           <DialogDescription>
-            Add a new book to the office library.
+            {isEdit
+              ? "Update the details of this book."
+              : "Add a new book to the office library."}
           </DialogDescription>
         </DialogHeader>
         <Form {...form}>
           <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="isbn"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>ISBN</FormLabel>
+                  <div className="flex gap-2">
+                    <FormControl>
+                      <Input placeholder="ISBN (optional)" {...field} />
+                    </FormControl>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={handleIsbnLookup}
+                      disabled={lookingUp || !field.value?.trim()}
+                    >
+                      {lookingUp ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <Search className="h-4 w-4" />
+                      )}
+                      <span className="sr-only sm:not-sr-only sm:ml-1.5">
+                        Look up
+                      </span>
+                    </Button>
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
             <FormField
               control={form.control}
               name="title"
@@ -199,7 +442,7 @@ export function AddBookDialog({ onBookAdded }: AddBookDialogProps) {
 
             {/* Cover Image Upload */}
             <div className="space-y-2">
-              <FormLabel>Cover Image *</FormLabel>
+              <FormLabel>Cover Image</FormLabel>
               {previewUrl ? (
                 <div className="relative w-full h-36 sm:h-44 rounded-md overflow-hidden border">
                   <Image
@@ -239,23 +482,38 @@ export function AddBookDialog({ onBookAdded }: AddBookDialogProps) {
                 onChange={handleFileSelect}
                 className="hidden"
               />
+              {!previewUrl && (
+                <div className="flex gap-2">
+                  <Input
+                    type="url"
+                    placeholder="or paste an image URL"
+                    value={coverUrl}
+                    onChange={(e) => setCoverUrl(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") {
+                        e.preventDefault();
+                        handleUrlImport();
+                      }
+                    }}
+                  />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={handleUrlImport}
+                    disabled={uploading || !coverUrl.trim()}
+                  >
+                    {uploading && (
+                      <Loader2 className="mr-1.5 h-4 w-4 animate-spin" />
+                    )}
+                    Import
+                  </Button>
+                </div>
+              )}
               <p className="text-xs text-muted-foreground">
-                JPEG, PNG, WebP or GIF. Max 5MB.
+                JPEG, PNG, WebP or GIF. Max 5MB. Books without a cover get one
+                made from their title and author.
               </p>
             </div>
-            <FormField
-              control={form.control}
-              name="isbn"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>ISBN</FormLabel>
-                  <FormControl>
-                    <Input placeholder="ISBN (optional)" {...field} />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
             <FormField
               control={form.control}
               name="description"
@@ -273,6 +531,69 @@ export function AddBookDialog({ onBookAdded }: AddBookDialogProps) {
                 </FormItem>
               )}
             />
+            <div className="space-y-2">
+              <FormLabel>Categories</FormLabel>
+              {categoryIds.length > 0 && (
+                <div className="flex flex-wrap gap-1.5">
+                  {categoryIds.map((categoryId) => (
+                    <Badge
+                      key={categoryId}
+                      variant="outline"
+                      className="gap-1 pr-1"
+                    >
+                      {categoryOptions.find(
+                        (option) => option.id === categoryId
+                      )?.label ??
+                        book?.categories?.find(
+                          (category) => category.id === categoryId
+                        )?.name}
+                      <button
+                        type="button"
+                        onClick={() =>
+                          setCategoryIds(
+                            categoryIds.filter((id) => id !== categoryId)
+                          )
+                        }
+                        className="rounded-full hover:bg-muted-foreground/20 p-0.5"
+                      >
+                        <X className="h-3 w-3" />
+                        <span className="sr-only">Remove category</span>
+                      </button>
+                    </Badge>
+                  ))}
+                </div>
+              )}
+              <Select
+                value=""
+                onValueChange={(categoryId) =>
+                  setCategoryIds([...categoryIds, categoryId])
+                }
+                disabled={categoryOptions.length === 0}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue
+                    placeholder={
+                      categoryOptions.length === 0
+                        ? "No categories yet"
+                        : "Add a category"
+                    }
+                  />
+                </SelectTrigger>
+                <SelectContent>
+                  {categoryOptions
+                    .filter((option) => !categoryIds.includes(option.id))
+                    .map((option) => (
+                      <SelectItem key={option.id} value={option.id}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <FormLabel>Tags</FormLabel>
+              <TagInput value={tags} onChange={setTags} />
+            </div>
 
             <div className="flex gap-2 pt-2">
               <Button
@@ -291,8 +612,10 @@ export function AddBookDialog({ onBookAdded }: AddBookDialogProps) {
                 {loading ? (
                   <>
                     <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    Adding...
+                    {isEdit ? "Saving..." : "Adding..."}
                   </>
+                ) : isEdit ? (
+                  "Save Changes"
                 ) : (
                   "Add Book"
                 )}
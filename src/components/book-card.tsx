@@ -27,7 +27,14 @@ import {
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
 import { toast } from "sonner";
-import { BookOpen, Trash2, RotateCcw, ImageIcon, Loader2 } from "lucide-react";
+import {
+  BookOpen,
+  Trash2,
+  RotateCcw,
+  Loader2,
+  AlertTriangle,
+} from "lucide-react";
+import { getGeneratedCoverUrl } from "@/lib/generated-covers";
 
 interface BookOwner {
   id: string;
@@ -41,12 +48,30 @@ interface RentalUser {
   image: string | null;
 }
 
-interface CurrentRental {
+interface ActiveRental {
   id: string;
   rentedAt: string;
+  dueAt: string;
   user: RentalUser;
 }
 
+interface HighlightSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+// Matched words from /api/search
+interface BookHighlights {
+  title: HighlightSegment[];
+  author: HighlightSegment[];
+  description: HighlightSegment[] | null;
+}
+
+interface BookTag {
+  id: string;
+  name: string;
+}
+
 interface Book {
   id: string;
   title: string;
@@ -54,10 +79,17 @@ interface Book {
   isbn: string | null;
   description: string | null;
   coverImage: string | null;
+  coverThumbnail: string | null;
+  coverPlaceholder: string | null;
   createdAt: string;
   owner: BookOwner;
+  totalCopies: number;
+  availableCopies: number;
   isAvailable: boolean;
-  currentRental: CurrentRental | null;
+  isOverdue: boolean;
+  activeRentals: ActiveRental[];
+  tags: BookTag[];
+  highlights?: BookHighlights;
 }
 
 interface BookCardProps {
@@ -65,12 +97,40 @@ interface BookCardProps {
   onUpdate: () => void;
 }
 
+function Highlighted({ segments }: { segments: HighlightSegment[] }) {
+  return segments.map((segment, index) =>
+    segment.highlighted ? (
+      <mark
+        key={index}
+        className="rounded-sm bg-yellow-200 dark:bg-yellow-500/40 text-inherit"
+      >
+        {segment.text}
+      </mark>
+    ) : (
+      <span key={index}>{segment.text}</span>
+    )
+  );
+}
+
 export function BookCard({ book, onUpdate }: BookCardProps) {
   const { data: session } = useSession();
   const [loading, setLoading] = useState(false);
 
   const isOwner = session?.user?.id === book.owner.id;
-  const isRentedByMe = book.currentRental?.user.id === session?.user?.id;
+  const myRental = book.activeRentals.find(
+    (rental) => rental.user.id === session?.user?.id
+  );
+  // Show the due date of my own copy, or of the book once every copy is out
+  const dueRental =
+    myRental ?? (book.isAvailable ? undefined : book.activeRentals[0]);
+
+  function formatDate(dateString: string) {
+    return new Date(dateString).toLocaleDateString("cs-CZ", {
+      day: "numeric",
+      month: "short",
+      year: "numeric",
+    });
+  }
 
   async function handleRent() {
     if (!session) {
@@ -155,42 +215,82 @@ export function BookCard({ book, onUpdate }: BookCardProps) {
       >
         {book.coverImage ? (
           <Image
-            src={book.coverImage}
+            src={book.coverThumbnail ?? book.coverImage}
             alt={`Cover of ${book.title}`}
             fill
+            placeholder={book.coverPlaceholder ? "blur" : "empty"}
+            blurDataURL={book.coverPlaceholder ?? undefined}
             className="object-cover"
           />
         ) : (
-          <div className="w-full h-full flex items-center justify-center">
-            <ImageIcon className="h-12 w-12 sm:h-16 sm:w-16 text-muted-foreground/30" />
-          </div>
+          <Image
+            src={getGeneratedCoverUrl(book)}
+            alt={`Cover of ${book.title}`}
+            fill
+            unoptimized
+            className="object-cover"
+          />
         )}
         <Badge
           variant={book.isAvailable ? "default" : "destructive"}
           className="absolute top-2 right-2 text-xs"
         >
-          {book.isAvailable ? "Available" : "Rented"}
+          {book.isOverdue && <AlertTriangle />}
+          {book.isAvailable
+            ? book.totalCopies > 1
+              ? `${book.availableCopies} of ${book.totalCopies} available`
+              : "Available"
+            : book.isOverdue
+              ? "Overdue"
+              : "Rented"}
         </Badge>
       </Link>
       <CardHeader className="pb-2 px-3 sm:px-6 py-3 sm:py-4">
         <Link href={`/books/${book.id}`} className="hover:underline">
           <CardTitle className="line-clamp-1 text-sm sm:text-base">
-            {book.title}
+            {book.highlights ? (
+              <Highlighted segments={book.highlights.title} />
+            ) : (
+              book.title
+            )}
           </CardTitle>
         </Link>
         <CardDescription className="line-clamp-1 text-xs sm:text-sm">
-          by {book.author}
+          by{" "}
+          {book.highlights ? (
+            <Highlighted segments={book.highlights.author} />
+          ) : (
+            book.author
+          )}
         </CardDescription>
       </CardHeader>
       <CardContent className="flex-1 pt-0 px-3 sm:px-6 hidden sm:block">
         {book.description && (
           <p className="text-sm text-muted-foreground line-clamp-2 mb-3">
-            {book.description}
+            {book.highlights?.description ? (
+              <Highlighted segments={book.highlights.description} />
+            ) : (
+              book.description
+            )}
           </p>
         )}
         {book.isbn && (
           <p className="text-xs text-muted-foreground">ISBN: {book.isbn}</p>
         )}
+        {book.tags.length > 0 && (
+          <div className="mt-2 flex flex-wrap gap-1">
+            {book.tags.slice(0, 3).map((tag) => (
+              <Badge key={tag.id} variant="secondary" className="text-xs">
+                #{tag.name}
+              </Badge>
+            ))}
+            {book.tags.length > 3 && (
+              <span className="text-xs text-muted-foreground">
+                +{book.tags.length - 3}
+              </span>
+            )}
+          </div>
+        )}
         <div className="mt-3 flex items-center gap-2 text-xs text-muted-foreground">
           <Avatar className="h-5 w-5">
             <AvatarImage src={book.owner.image || undefined} />
@@ -202,22 +302,54 @@ export function BookCard({ book, onUpdate }: BookCardProps) {
             Added by {book.owner.name || "Unknown"}
           </span>
         </div>
-        {!book.isAvailable && book.currentRental && (
+        {!book.isAvailable && book.activeRentals.length > 0 && (
           <div className="mt-2 flex items-center gap-2 text-xs text-muted-foreground">
             <Avatar className="h-5 w-5">
-              <AvatarImage src={book.currentRental.user.image || undefined} />
+              <AvatarImage
+                src={book.activeRentals[0].user.image || undefined}
+              />
               <AvatarFallback className="text-xs">
-                {book.currentRental.user.name?.charAt(0) || "?"}
+                {book.activeRentals[0].user.name?.charAt(0) || "?"}
               </AvatarFallback>
             </Avatar>
             <span className="truncate">
-              Rented by {book.currentRental.user.name || "Unknown"}
+              Rented by {book.activeRentals[0].user.name || "Unknown"}
+              {book.activeRentals.length > 1 &&
+                ` +${book.activeRentals.length - 1}`}
             </span>
           </div>
         )}
+        {dueRental && (
+          <p
+            className={`mt-1 text-xs ${
+              new Date(dueRental.dueAt) < new Date()
+                ? "text-destructive"
+                : "text-muted-foreground"
+            }`}
+          >
+            Due {formatDate(dueRental.dueAt)}
+          </p>
+        )}
       </CardContent>
       <CardFooter className="flex gap-2 px-3 sm:px-6 py-3 sm:py-4">
-        {book.isAvailable ? (
+        {myRental ? (
+          <Button
+            onClick={handleReturn}
+            disabled={loading}
+            variant="outline"
+            className="flex-1 h-8 sm:h-10 text-xs sm:text-sm"
+            size="sm"
+          >
+            {loading ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <>
+                <RotateCcw className="mr-1.5 h-3 w-3 sm:h-4 sm:w-4" />
+                Return
+              </>
+            )}
+          </Button>
+        ) : book.isAvailable ? (
           <AlertDialog>
             <AlertDialogTrigger asChild>
               <Button
@@ -249,23 +381,6 @@ export function BookCard({ book, onUpdate }: BookCardProps) {
               </AlertDialogFooter>
             </AlertDialogContent>
           </AlertDialog>
-        ) : isRentedByMe ? (
-          <Button
-            onClick={handleReturn}
-            disabled={loading}
-            variant="outline"
-            className="flex-1 h-8 sm:h-10 text-xs sm:text-sm"
-            size="sm"
-          >
-            {loading ? (
-              <Loader2 className="h-4 w-4 animate-spin" />
-            ) : (
-              <>
-                <RotateCcw className="mr-1.5 h-3 w-3 sm:h-4 sm:w-4" />
-                Return
-              </>
-            )}
-          </Button>
         ) : (
           <Button
             disabled
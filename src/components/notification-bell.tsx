@@ -0,0 +1,162 @@
+"use client";
+
+import { useEffect, useState, useCallback } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Bell } from "lucide-react";
+
+// How often the unread count is refreshed while the page is open
+const POLL_INTERVAL_MS = 60 * 1000;
+
+interface Notification {
+  id: string;
+  message: string;
+  bookId: string | null;
+  readAt: string | null;
+  createdAt: string;
+}
+
+export function NotificationBell() {
+  const router = useRouter();
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  const fetchNotifications = useCallback(
+    () =>
+      fetch("/api/notifications")
+        .then((response) => (response.ok ? response.json() : null))
+        .then((data) => {
+          if (data) {
+            setNotifications(data.notifications);
+            setUnreadCount(data.unreadCount);
+          }
+        })
+        .catch((error) =>
+          console.error("Failed to fetch notifications:", error)
+        ),
+    []
+  );
+
+  // Load right away, then keep the unread count fresh
+  useEffect(() => {
+    fetchNotifications();
+    const interval = setInterval(fetchNotifications, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [fetchNotifications]);
+
+  function handleSelect(notification: Notification) {
+    if (!notification.readAt) {
+      setNotifications((current) =>
+        current.map((n) =>
+          n.id === notification.id
+            ? { ...n, readAt: new Date().toISOString() }
+            : n
+        )
+      );
+      setUnreadCount((count) => Math.max(count - 1, 0));
+      fetch(`/api/notifications/${notification.id}/read`, {
+        method: "POST",
+      }).catch((error) =>
+        console.error("Failed to mark notification as read:", error)
+      );
+    }
+
+    if (notification.bookId) {
+      router.push(`/books/${notification.bookId}`);
+    }
+  }
+
+  async function handleMarkAllRead() {
+    try {
+      const response = await fetch("/api/notifications/read-all", {
+        method: "POST",
+      });
+      if (response.ok) {
+        fetchNotifications();
+      }
+    } catch (error) {
+      console.error("Failed to mark notifications as read:", error);
+    }
+  }
+
+  function formatTime(dateString: string) {
+    return new Date(dateString).toLocaleString("cs-CZ", {
+      day: "numeric",
+      month: "short",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+  }
+
+  return (
+    <DropdownMenu onOpenChange={(open) => open && fetchNotifications()}>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute top-1 right-1 flex h-4 min-w-4 items-center justify-center rounded-full bg-destructive px-1 text-[10px] font-medium text-white">
+              {unreadCount > 9 ? "9+" : unreadCount}
+            </span>
+          )}
+          <span className="sr-only">Notifications</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent className="w-80" align="end">
+        <DropdownMenuLabel className="flex items-center justify-between">
+          <span>Notifications</span>
+          {unreadCount > 0 && (
+            <button
+              type="button"
+              onClick={handleMarkAllRead}
+              className="text-xs font-normal text-muted-foreground hover:text-foreground"
+            >
+              Mark all as read
+            </button>
+          )}
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {notifications.length === 0 ? (
+          <p className="px-2 py-6 text-center text-sm text-muted-foreground">
+            No notifications yet
+          </p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.map((notification) => (
+              <DropdownMenuItem
+                key={notification.id}
+                onSelect={() => handleSelect(notification)}
+                className="flex items-start gap-2 py-2"
+              >
+                <span
+                  className={`mt-1.5 h-2 w-2 shrink-0 rounded-full ${
+                    notification.readAt ? "bg-transparent" : "bg-primary"
+                  }`}
+                />
+                <div className="min-w-0 space-y-0.5">
+                  <p
+                    className={`text-sm leading-snug ${
+                      notification.readAt ? "text-muted-foreground" : ""
+                    }`}
+                  >
+                    {notification.message}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatTime(notification.createdAt)}
+                  </p>
+                </div>
+              </DropdownMenuItem>
+            ))}
+          </div>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,212 @@
+"use client";
+
+import { useEffect, useState, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { toast } from "sonner";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+
+interface SignInException {
+  id: string;
+  value: string;
+  note: string | null;
+  createdAt: string;
+  createdBy: {
+    id: string;
+    name: string | null;
+  } | null;
+}
+
+// Admin-managed addresses and domains allowed to sign in besides the
+// company domains
+export function SignInExceptions() {
+  const [exceptions, setExceptions] = useState<SignInException[]>([]);
+  const [value, setValue] = useState("");
+  const [note, setNote] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  const fetchExceptions = useCallback(async () => {
+    try {
+      const response = await fetch("/api/admin/sign-in-exceptions");
+      if (response.ok) {
+        setExceptions(await response.json());
+      }
+    } catch (error) {
+      console.error("Failed to fetch sign-in exceptions:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchExceptions();
+  }, [fetchExceptions]);
+
+  async function handleAdd(e: React.FormEvent) {
+    e.preventDefault();
+
+    setLoading(true);
+    try {
+      const response = await fetch("/api/admin/sign-in-exceptions", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ value, note }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Failed to add exception");
+      }
+
+      toast.success(`${value} can now sign in`);
+      setValue("");
+      setNote("");
+      fetchExceptions();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to add exception"
+      );
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handleRemove(exception: SignInException) {
+    try {
+      const response = await fetch(
+        `/api/admin/sign-in-exceptions/${exception.id}`,
+        {
+          method: "DELETE",
+        }
+      );
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Failed to remove exception");
+      }
+
+      toast.success(`${exception.value} removed`);
+      fetchExceptions();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to remove exception"
+      );
+    }
+  }
+
+  function formatDate(dateString: string) {
+    return new Date(dateString).toLocaleDateString("cs-CZ", {
+      day: "numeric",
+      month: "short",
+      year: "numeric",
+    });
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Addresses or whole domains allowed to sign in in addition to the company
+        domains.
+      </p>
+      <form onSubmit={handleAdd} className="flex flex-col sm:flex-row gap-3">
+        <Input
+          placeholder="jane@example.com or example.com"
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          className="sm:max-w-xs"
+        />
+        <Input
+          placeholder="Note (optional)"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          className="sm:max-w-xs"
+        />
+        <Button type="submit" disabled={loading || !value.trim()}>
+          {loading ? (
+            <Loader2 className="mr-1.5 h-4 w-4 animate-spin" />
+          ) : (
+            <Plus className="mr-1.5 h-4 w-4" />
+          )}
+          Add exception
+        </Button>
+      </form>
+      {exceptions.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Address or domain</TableHead>
+              <TableHead>Note</TableHead>
+              <TableHead>Added</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {exceptions.map((exception) => (
+              <TableRow key={exception.id}>
+                <TableCell className="font-medium">{exception.value}</TableCell>
+                <TableCell className="text-muted-foreground">
+                  {exception.note || "-"}
+                </TableCell>
+                <TableCell>
+                  {formatDate(exception.createdAt)}
+                  {exception.createdBy?.name && (
+                    <span className="text-muted-foreground">
+                      {" "}
+                      by {exception.createdBy.name}
+                    </span>
+                  )}
+                </TableCell>
+                <TableCell className="text-right">
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent className="max-w-[90vw] sm:max-w-lg">
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Remove exception?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          {exception.value} will no longer be able to sign in
+                          unless it matches a company domain. Existing sessions
+                          stay signed in until they expire.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction
+                          onClick={() => handleRemove(exception)}
+                        >
+                          Remove
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+"use client";
+
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { X } from "lucide-react";
+
+interface TagInputProps {
+  value: string[];
+  onChange: (tags: string[]) => void;
+  max?: number;
+  placeholder?: string;
+}
+
+// Free-form tags: Enter or comma adds the typed tag, Backspace on an empty
+// input removes the last one
+export function TagInput({
+  value,
+  onChange,
+  max = 10,
+  placeholder = "Add a tag",
+}: TagInputProps) {
+  const [draft, setDraft] = useState("");
+
+  function addTag() {
+    const tag = draft.trim().toLowerCase();
+    setDraft("");
+    if (!tag || value.includes(tag) || value.length >= max) return;
+    onChange([...value, tag]);
+  }
+
+  function removeTag(tag: string) {
+    onChange(value.filter((t) => t !== tag));
+  }
+
+  function handleKeyDown(e: React.KeyboardEvent<HTMLInputElement>) {
+    if (e.key === "Enter" || e.key === ",") {
+      e.preventDefault();
+      addTag();
+    } else if (e.key === "Backspace" && !draft && value.length > 0) {
+      removeTag(value[value.length - 1]);
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {value.map((tag) => (
+            <Badge key={tag} variant="secondary" className="gap-1 pr-1">
+              {tag}
+              <button
+                type="button"
+                onClick={() => removeTag(tag)}
+                className="rounded-full hover:bg-muted-foreground/20 p-0.5"
+              >
+                <X className="h-3 w-3" />
+                <span className="sr-only">Remove {tag}</span>
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+      <Input
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={addTag}
+        placeholder={value.length >= max ? `At most ${max} tags` : placeholder}
+        disabled={value.length >= max}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,546 @@
+"use client";
+
+import { useEffect, useState, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { toast } from "sonner";
+import {
+  Copy,
+  History,
+  Loader2,
+  Pause,
+  Play,
+  Plus,
+  RotateCcw,
+  Send,
+  Trash2,
+} from "lucide-react";
+
+type WebhookEvent =
+  | "book.created"
+  | "book.deleted"
+  | "rental.created"
+  | "rental.returned"
+  | "rental.overdue";
+
+interface Webhook {
+  id: string;
+  url: string;
+  description: string | null;
+  events: WebhookEvent[];
+  secret: string;
+  active: boolean;
+  createdAt: string;
+}
+
+interface WebhookDelivery {
+  id: string;
+  event: string;
+  status: "PENDING" | "SUCCEEDED" | "FAILED";
+  attempts: number;
+  nextAttemptAt: string | null;
+  responseStatus: number | null;
+  error: string | null;
+  deliveredAt: string | null;
+  createdAt: string;
+}
+
+const eventLabels: Record<WebhookEvent, string> = {
+  "book.created": "Book added",
+  "book.deleted": "Book deleted",
+  "rental.created": "Book borrowed",
+  "rental.returned": "Book returned",
+  "rental.overdue": "Loan overdue",
+};
+
+const statusVariants: Record<
+  WebhookDelivery["status"],
+  "default" | "secondary" | "destructive"
+> = {
+  SUCCEEDED: "default",
+  PENDING: "secondary",
+  FAILED: "destructive",
+};
+
+function formatDateTime(dateString: string) {
+  return new Date(dateString).toLocaleString("cs-CZ", {
+    day: "numeric",
+    month: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function describeDelivery(delivery: WebhookDelivery) {
+  if (delivery.status === "SUCCEEDED") {
+    return `Delivered (${delivery.responseStatus})`;
+  }
+  return delivery.error ?? "Waiting to be sent";
+}
+
+// Delivery log of one webhook with its signing secret
+function WebhookDeliveries({ webhook }: { webhook: Webhook }) {
+  const [open, setOpen] = useState(false);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [replaying, setReplaying] = useState<string | null>(null);
+
+  const fetchDeliveries = useCallback(() => {
+    return fetch(`/api/admin/webhooks/${webhook.id}/deliveries`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        if (data) setDeliveries(data);
+      })
+      .catch((error) => {
+        console.error("Failed to fetch webhook deliveries:", error);
+      });
+  }, [webhook.id]);
+
+  useEffect(() => {
+    if (open) fetchDeliveries();
+  }, [open, fetchDeliveries]);
+
+  async function handleReplay(delivery: WebhookDelivery) {
+    setReplaying(delivery.id);
+    try {
+      const response = await fetch(
+        `/api/admin/webhooks/${webhook.id}/deliveries/${delivery.id}/replay`,
+        {
+          method: "POST",
+        }
+      );
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Failed to replay delivery");
+      }
+
+      const replay: WebhookDelivery = await response.json();
+      if (replay.status === "SUCCEEDED") {
+        toast.success("Delivery replayed");
+      } else {
+        toast.error(`Replay failed: ${describeDelivery(replay)}`);
+      }
+      fetchDeliveries();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to replay delivery"
+      );
+    } finally {
+      setReplaying(null);
+    }
+  }
+
+  async function handleCopySecret() {
+    await navigator.clipboard.writeText(webhook.secret);
+    toast.success("Secret copied");
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
+          <History className="h-4 w-4" />
+          <span className="sr-only">Delivery log</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-[95vw] sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Deliveries</DialogTitle>
+          <DialogDescription className="break-all">
+            {webhook.url}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-1.5">
+          <p className="text-sm font-medium">Signing secret</p>
+          <div className="flex gap-2">
+            <Input
+              readOnly
+              value={webhook.secret}
+              className="font-mono text-xs"
+            />
+            <Button variant="outline" size="icon" onClick={handleCopySecret}>
+              <Copy className="h-4 w-4" />
+              <span className="sr-only">Copy secret</span>
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Each request carries an X-Webhook-Signature header: sha256= and the
+            HMAC-SHA256 of the X-Webhook-Timestamp header, a dot and the raw
+            body.
+          </p>
+        </div>
+        {deliveries.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4">
+            Nothing has been sent yet.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Event</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Result</TableHead>
+                <TableHead>Created</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {deliveries.map((delivery) => (
+                <TableRow key={delivery.id}>
+                  <TableCell className="font-mono text-xs">
+                    {delivery.event}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={statusVariants[delivery.status]}>
+                      {delivery.status.toLowerCase()}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-muted-foreground whitespace-normal">
+                    {describeDelivery(delivery)}
+                    {delivery.attempts > 1 && (
+                      <span> after {delivery.attempts} attempts</span>
+                    )}
+                    {delivery.status === "PENDING" &&
+                      delivery.nextAttemptAt && (
+                        <span>
+                          , next try {formatDateTime(delivery.nextAttemptAt)}
+                        </span>
+                      )}
+                  </TableCell>
+                  <TableCell>{formatDateTime(delivery.createdAt)}</TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleReplay(delivery)}
+                      disabled={replaying !== null}
+                    >
+                      {replaying === delivery.id ? (
+                        <Loader2 className="mr-1.5 h-4 w-4 animate-spin" />
+                      ) : (
+                        <RotateCcw className="mr-1.5 h-4 w-4" />
+                      )}
+                      Replay
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Admin-managed subscriptions that POST signed library events to other tools
+export function Webhooks() {
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [url, setUrl] = useState("");
+  const [description, setDescription] = useState("");
+  const [events, setEvents] = useState<WebhookEvent[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [testing, setTesting] = useState<string | null>(null);
+
+  const fetchWebhooks = useCallback(async () => {
+    try {
+      const response = await fetch("/api/admin/webhooks");
+      if (response.ok) {
+        setWebhooks(await response.json());
+      }
+    } catch (error) {
+      console.error("Failed to fetch webhooks:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchWebhooks();
+  }, [fetchWebhooks]);
+
+  function toggleEvent(event: WebhookEvent) {
+    setEvents((current) =>
+      current.includes(event)
+        ? current.filter((e) => e !== event)
+        : [...current, event]
+    );
+  }
+
+  async function handleAdd(e: React.FormEvent) {
+    e.preventDefault();
+
+    setLoading(true);
+    try {
+      const response = await fetch("/api/admin/webhooks", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ url, description, events }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Failed to add webhook");
+      }
+
+      toast.success("Webhook added");
+      setUrl("");
+      setDescription("");
+      setEvents([]);
+      fetchWebhooks();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to add webhook"
+      );
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handleToggleActive(webhook: Webhook) {
+    try {
+      const response = await fetch(`/api/admin/webhooks/${webhook.id}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ active: !webhook.active }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Failed to update webhook");
+      }
+
+      toast.success(webhook.active ? "Webhook paused" : "Webhook resumed");
+      fetchWebhooks();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to update webhook"
+      );
+    }
+  }
+
+  async function handleTest(webhook: Webhook) {
+    setTesting(webhook.id);
+    try {
+      const response = await fetch(`/api/admin/webhooks/${webhook.id}/test`, {
+        method: "POST",
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Failed to send test delivery");
+      }
+
+      const delivery: WebhookDelivery = await response.json();
+      if (delivery.status === "SUCCEEDED") {
+        toast.success(`Test delivered (${delivery.responseStatus})`);
+      } else {
+        toast.error(`Test failed: ${describeDelivery(delivery)}`);
+      }
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to send test delivery"
+      );
+    } finally {
+      setTesting(null);
+    }
+  }
+
+  async function handleRemove(webhook: Webhook) {
+    try {
+      const response = await fetch(`/api/admin/webhooks/${webhook.id}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Failed to remove webhook");
+      }
+
+      toast.success("Webhook removed");
+      fetchWebhooks();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to remove webhook"
+      );
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Library events are POSTed as signed JSON to these URLs. Failed
+        deliveries are retried with growing delays.
+      </p>
+      <form onSubmit={handleAdd} className="space-y-3">
+        <div className="flex flex-col sm:flex-row gap-3">
+          <Input
+            type="url"
+            placeholder="https://example.com/hooks/library"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            className="sm:max-w-sm"
+          />
+          <Input
+            placeholder="Description (optional)"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            className="sm:max-w-xs"
+          />
+        </div>
+        <div className="flex flex-wrap gap-x-4 gap-y-2">
+          {(Object.keys(eventLabels) as WebhookEvent[]).map((event) => (
+            <label key={event} className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={events.includes(event)}
+                onChange={() => toggleEvent(event)}
+                className="h-4 w-4 accent-primary"
+              />
+              {eventLabels[event]}
+            </label>
+          ))}
+        </div>
+        <Button
+          type="submit"
+          disabled={loading || !url.trim() || events.length === 0}
+        >
+          {loading ? (
+            <Loader2 className="mr-1.5 h-4 w-4 animate-spin" />
+          ) : (
+            <Plus className="mr-1.5 h-4 w-4" />
+          )}
+          Add webhook
+        </Button>
+      </form>
+      {webhooks.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>URL</TableHead>
+              <TableHead>Events</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {webhooks.map((webhook) => (
+              <TableRow key={webhook.id}>
+                <TableCell className="max-w-xs">
+                  <p className="font-medium truncate">{webhook.url}</p>
+                  {webhook.description && (
+                    <p className="text-xs text-muted-foreground truncate">
+                      {webhook.description}
+                    </p>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <div className="flex flex-wrap gap-1">
+                    {webhook.events.map((event) => (
+                      <Badge key={event} variant="outline">
+                        {eventLabels[event] ?? event}
+                      </Badge>
+                    ))}
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <Badge variant={webhook.active ? "default" : "secondary"}>
+                    {webhook.active ? "Active" : "Paused"}
+                  </Badge>
+                </TableCell>
+                <TableCell className="text-right whitespace-nowrap">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0"
+                    onClick={() => handleTest(webhook)}
+                    disabled={testing !== null}
+                  >
+                    {testing === webhook.id ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <Send className="h-4 w-4" />
+                    )}
+                    <span className="sr-only">Send test delivery</span>
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0"
+                    onClick={() => handleToggleActive(webhook)}
+                  >
+                    {webhook.active ? (
+                      <Pause className="h-4 w-4" />
+                    ) : (
+                      <Play className="h-4 w-4" />
+                    )}
+                    <span className="sr-only">
+                      {webhook.active ? "Pause" : "Resume"}
+                    </span>
+                  </Button>
+                  <WebhookDeliveries webhook={webhook} />
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                        <span className="sr-only">Remove</span>
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent className="max-w-[90vw] sm:max-w-lg">
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Remove webhook?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          {webhook.url} will stop receiving events and its
+                          delivery log will be deleted. Use pause to stop it
+                          only for a while.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction
+                          onClick={() => handleRemove(webhook)}
+                        >
+                          Remove
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
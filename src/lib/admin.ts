@@ -0,0 +1,18 @@
+const DEFAULT_INACTIVE_OWNER_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Owners who have not signed in, rented or added a book for this many days
+// count as inactive (e.g. colleagues who left), configurable via
+// INACTIVE_OWNER_DAYS
+export function getInactiveOwnerDays() {
+  const days = Number(process.env.INACTIVE_OWNER_DAYS);
+  return Number.isInteger(days) && days > 0
+    ? days
+    : DEFAULT_INACTIVE_OWNER_DAYS;
+}
+
+// Owners without any activity since this time are inactive
+export function getInactiveOwnerCutoff(now: Date = new Date()) {
+  return new Date(now.getTime() - getInactiveOwnerDays() * DAY_MS);
+}
@@ -0,0 +1,59 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import type { SessionUser } from "@/lib/permissions";
+
+export type AuditAction =
+  | "book.create"
+  | "book.update"
+  | "book.delete"
+  | "book.restore"
+  | "book.purge"
+  | "book.reassign"
+  | "copy.create"
+  | "copy.update"
+  | "copy.delete"
+  | "category.create"
+  | "rental.create"
+  | "rental.return"
+  | "rental.renew"
+  | "user.updateRole";
+
+export type AuditEntityType = "book" | "copy" | "category" | "rental" | "user";
+
+export interface AuditEntry {
+  action: AuditAction;
+  entity: { type: AuditEntityType; id: string };
+  // State of the entity before and after the change, left out for creates
+  // and deletes respectively
+  before?: unknown;
+  after?: unknown;
+  // Given when a librarian or admin acted on someone else's data
+  reason?: string | null;
+}
+
+// Dates become ISO strings the same way they do in API responses
+function toJson(value: unknown) {
+  return value === undefined
+    ? undefined
+    : (JSON.parse(JSON.stringify(value)) as Prisma.InputJsonValue);
+}
+
+// Pass the transaction client to record the event together with the change.
+// Scheduled jobs record events without an actor.
+export async function recordAudit(
+  actor: SessionUser | null,
+  { action, entity, before, after, reason }: AuditEntry,
+  db: Prisma.TransactionClient = prisma
+) {
+  await db.auditEvent.create({
+    data: {
+      actorId: actor?.id ?? null,
+      action,
+      entityType: entity.type,
+      entityId: entity.id,
+      before: toJson(before),
+      after: toJson(after),
+      reason: reason ?? null,
+    },
+  });
+}
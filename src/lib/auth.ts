@@ -1,25 +1,116 @@
+import { randomUUID } from "node:crypto";
 import NextAuth from "next-auth";
+import { encode } from "next-auth/jwt";
+import Credentials from "next-auth/providers/credentials";
 import Google from "next-auth/providers/google";
+import Nodemailer from "next-auth/providers/nodemailer";
 import { PrismaAdapter } from "@auth/prisma-adapter";
+import { getMailFrom, getMailServer } from "@/lib/mail";
+import { checkPassword, credentialsSchema } from "@/lib/passwords";
 import { prisma } from "@/lib/prisma";
+import { isEmailAllowed } from "@/lib/sign-in-policy";
+
+const SESSION_MAX_AGE = 30 * 24 * 60 * 60;
+
+// Comma separated emails that become admins on first sign in, so a fresh
+// deployment has someone who can hand out roles
+function getAdminEmails() {
+  return (process.env.ADMIN_EMAILS ?? "")
+    .split(",")
+    .map((email) => email.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+const mailServer = getMailServer();
+const adapter = PrismaAdapter(prisma);
 
 export const { handlers, auth, signIn, signOut } = NextAuth({
-  adapter: PrismaAdapter(prisma),
+  adapter,
+  session: {
+    strategy: "database",
+    maxAge: SESSION_MAX_AGE,
+  },
   providers: [
     Google({
       clientId: process.env.GOOGLE_CLIENT_ID!,
       clientSecret: process.env.GOOGLE_CLIENT_SECRET!,
     }),
+    // Magic links for people without a Google Workspace account
+    ...(mailServer
+      ? [Nodemailer({ server: mailServer, from: getMailFrom() })]
+      : []),
+    // Passwords set on the settings page, for those who cannot get emails
+    Credentials({
+      credentials: {
+        email: {},
+        password: {},
+      },
+      async authorize(credentials) {
+        const parsed = credentialsSchema.safeParse(credentials);
+        if (!parsed.success) return null;
+
+        return checkPassword(parsed.data.email, parsed.data.password);
+      },
+    }),
   ],
+  // Credentials sign-ins are handed a JWT by Auth.js, which the database
+  // strategy cannot read. A database session is created instead and its
+  // token put in the cookie, the same as for the other providers.
+  jwt: {
+    async encode(params) {
+      if (params.token?.credentials && params.token.sub) {
+        const sessionToken = randomUUID();
+        await adapter.createSession!({
+          sessionToken,
+          userId: params.token.sub,
+          expires: new Date(Date.now() + SESSION_MAX_AGE * 1000),
+        });
+        return sessionToken;
+      }
+      return encode(params);
+    },
+  },
   callbacks: {
+    jwt({ token, account }) {
+      if (account?.provider === "credentials") {
+        token.credentials = true;
+      }
+      return token;
+    },
+    // Only company accounts (and admin-approved exceptions) may sign in. For
+    // magic links this also runs before the email is sent, so rejected
+    // addresses never get a link.
+    async signIn({ user, profile }) {
+      if (profile?.email_verified === false) {
+        return "/login/rejected";
+      }
+      return (await isEmailAllowed(user.email)) || "/login/rejected";
+    },
     session({ session, user }) {
       if (session.user) {
         session.user.id = user.id;
+        session.user.role = user.role ?? "MEMBER";
       }
       return session;
     },
   },
+  events: {
+    async createUser({ user }) {
+      if (
+        user.id &&
+        user.email &&
+        getAdminEmails().includes(user.email.toLowerCase())
+      ) {
+        await prisma.user.update({
+          where: { id: user.id },
+          data: { role: "ADMIN" },
+        });
+      }
+    },
+  },
   pages: {
     signIn: "/login",
+    verifyRequest: "/login/verify",
+    error: "/login",
   },
 });
@@ -0,0 +1,155 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { recordAudit } from "@/lib/audit";
+import { getAvailability } from "@/lib/rentals";
+import { deleteUploads } from "@/lib/uploads";
+import { normalizeIsbn } from "@/lib/isbn";
+import { tagNamesSchema } from "@/lib/tags";
+import { categoryIdsSchema } from "@/lib/categories";
+import * as z from "zod";
+
+const DEFAULT_BOOK_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Empty optional fields are stored as null
+const optionalText = z
+  .string()
+  .trim()
+  .nullable()
+  .optional()
+  .transform((value) => (value === undefined ? undefined : value || null));
+
+export const createBookSchema = z.object({
+  title: z
+    .string({ error: "Title is required" })
+    .trim()
+    .min(1, "Title is required"),
+  author: z
+    .string({ error: "Author is required" })
+    .trim()
+    .min(1, "Author is required"),
+  // ISBNs are stored in their ISBN-13 form
+  isbn: optionalText.transform((value, ctx) => {
+    if (!value) return value;
+    const isbn = normalizeIsbn(value);
+    if (!isbn) {
+      ctx.addIssue({ code: "custom", message: "Invalid ISBN" });
+      return z.NEVER;
+    }
+    return isbn;
+  }),
+  description: optionalText,
+  // An upload of the user's, see findCoverUpload. Without a cover the book
+  // gets a generated one.
+  coverImage: optionalText,
+  tags: tagNamesSchema.optional(),
+  categoryIds: categoryIdsSchema.optional(),
+});
+
+export const updateBookSchema = createBookSchema.partial();
+
+// Relations loaded for books shown in lists (the grid, my books)
+export const bookListInclude = {
+  owner: {
+    select: {
+      id: true,
+      name: true,
+      image: true,
+    },
+  },
+  rentals: {
+    where: {
+      returnedAt: null,
+    },
+    include: {
+      user: {
+        select: {
+          id: true,
+          name: true,
+          image: true,
+        },
+      },
+    },
+  },
+  categories: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+  tags: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+  _count: {
+    select: {
+      copies: { where: { retiredAt: null } },
+    },
+  },
+} satisfies Prisma.BookInclude;
+
+type BookListPayload = Prisma.BookGetPayload<{
+  include: typeof bookListInclude;
+}>;
+
+// Transform to include availability status
+export function withAvailability({
+  rentals,
+  _count,
+  ...book
+}: BookListPayload) {
+  return {
+    ...book,
+    ...getAvailability(_count.copies, rentals),
+    activeRentals: rentals,
+  };
+}
+
+// Days a deleted book can still be restored before it is purged, configurable
+// via BOOK_RETENTION_DAYS
+export function getBookRetentionDays() {
+  const days = Number(process.env.BOOK_RETENTION_DAYS);
+  return Number.isInteger(days) && days > 0
+    ? days
+    : DEFAULT_BOOK_RETENTION_DAYS;
+}
+
+// Permanently remove books deleted before the retention period, along with
+// their copies, loan history, holds and uploaded covers. Covers stay until
+// the purge, so restored books keep them. Returns the number of purged books.
+export async function purgeDeletedBooks(now: Date = new Date()) {
+  const cutoff = new Date(now.getTime() - getBookRetentionDays() * DAY_MS);
+  const books = await prisma.book.findMany({
+    where: {
+      deletedAt: { lt: cutoff },
+    },
+    include: {
+      uploads: true,
+    },
+  });
+
+  for (const { uploads, ...book } of books) {
+    await prisma.$transaction(async (tx) => {
+      await tx.book.delete({
+        where: { id: book.id },
+      });
+
+      await recordAudit(
+        null,
+        {
+          action: "book.purge",
+          entity: { type: "book", id: book.id },
+          before: book,
+        },
+        tx
+      );
+    });
+
+    await deleteUploads(uploads);
+  }
+
+  return books.length;
+}
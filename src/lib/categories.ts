@@ -0,0 +1,94 @@
+import { prisma } from "@/lib/prisma";
+import * as z from "zod";
+
+export const categoryIdsSchema = z
+  .array(z.string().min(1))
+  .max(5, "A book can be in at most 5 categories")
+  .transform((ids) => [...new Set(ids)]);
+
+export const createCategorySchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "Name is required")
+    .max(50, "Name can be at most 50 characters"),
+  parentId: z.string().min(1).nullable().optional(),
+});
+
+export interface CategoryNode {
+  id: string;
+  name: string;
+  parentId: string | null;
+  bookCount: number;
+  children: CategoryNode[];
+}
+
+// All categories as a tree, each with the number of books filed directly
+// under it (not counting deleted books)
+export async function getCategoryTree() {
+  const categories = await prisma.category.findMany({
+    include: {
+      _count: {
+        select: {
+          books: { where: { deletedAt: null } },
+        },
+      },
+    },
+    orderBy: {
+      name: "asc",
+    },
+  });
+
+  const nodes = new Map<string, CategoryNode>(
+    categories.map((category) => [
+      category.id,
+      {
+        id: category.id,
+        name: category.name,
+        parentId: category.parentId,
+        bookCount: category._count.books,
+        children: [],
+      },
+    ])
+  );
+
+  const roots: CategoryNode[] = [];
+  for (const node of nodes.values()) {
+    const parent = node.parentId ? nodes.get(node.parentId) : undefined;
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+  return roots;
+}
+
+// The category and all categories below it, so filtering by "Engineering"
+// also finds books filed under "Engineering > Frontend"
+export async function getCategoryWithDescendantIds(id: string) {
+  const categories = await prisma.category.findMany({
+    select: {
+      id: true,
+      parentId: true,
+    },
+  });
+
+  const ids = [id];
+  for (let i = 0; i < ids.length; i++) {
+    for (const category of categories) {
+      if (category.parentId === ids[i]) ids.push(category.id);
+    }
+  }
+  return ids;
+}
+
+// True when every id refers to an existing category
+export async function categoriesExist(ids: string[]) {
+  if (ids.length === 0) return true;
+
+  const count = await prisma.category.count({
+    where: { id: { in: ids } },
+  });
+  return count === ids.length;
+}
@@ -0,0 +1,13 @@
+import { BookCondition } from "@prisma/client";
+import * as z from "zod";
+
+// Editable fields of a book copy, shared by the create and update routes
+export const copySchema = z.object({
+  barcode: z
+    .string()
+    .trim()
+    .nullable()
+    .optional()
+    .transform((value) => (value === undefined ? undefined : value || null)),
+  condition: z.enum(BookCondition).optional(),
+});
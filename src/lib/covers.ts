@@ -0,0 +1,72 @@
+import sharp from "sharp";
+import { getStorage } from "@/lib/storage";
+
+// Widths of the stored renditions: the grid shows thumbnails, the detail
+// page the large cover. Smaller images are never enlarged.
+const LARGE_WIDTH = 1200;
+const THUMBNAIL_WIDTH = 400;
+const PLACEHOLDER_WIDTH = 16;
+
+const WEBP_QUALITY = 80;
+
+export interface StoredCover {
+  coverImage: string;
+  coverThumbnail: string;
+  coverPlaceholder: string;
+  // Bytes stored, both renditions together
+  size: number;
+}
+
+// Decoding applies the EXIF orientation; sharp drops all metadata (EXIF,
+// GPS, ICC) on output unless asked to keep it
+function toWebp(image: Buffer, width: number, quality = WEBP_QUALITY) {
+  return sharp(image)
+    .rotate()
+    .resize({ width, withoutEnlargement: true })
+    .webp({ quality })
+    .toBuffer();
+}
+
+// Re-encode an uploaded image into the cover renditions, or null when it
+// cannot be decoded
+export async function processCover(image: Buffer) {
+  try {
+    await sharp(image).metadata();
+  } catch {
+    return null;
+  }
+
+  const [large, thumbnail, placeholder] = await Promise.all([
+    toWebp(image, LARGE_WIDTH),
+    toWebp(image, THUMBNAIL_WIDTH),
+    toWebp(image, PLACEHOLDER_WIDTH, 50),
+  ]);
+
+  return {
+    large,
+    thumbnail,
+    placeholder: `data:image/webp;base64,${placeholder.toString("base64")}`,
+  };
+}
+
+// Process an uploaded cover and store both renditions, or null when the
+// image cannot be decoded. The stored files are always WebP, whatever was
+// uploaded.
+export async function storeCover(image: Buffer): Promise<StoredCover | null> {
+  const cover = await processCover(image);
+  if (!cover) return null;
+
+  const name = `book-covers/${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
+  const storage = getStorage();
+  const [coverImage, coverThumbnail] = await Promise.all([
+    storage.put(`${name}.webp`, cover.large, "image/webp"),
+    storage.put(`${name}-thumb.webp`, cover.thumbnail, "image/webp"),
+  ]);
+
+  return {
+    coverImage,
+    coverThumbnail,
+    coverPlaceholder: cover.placeholder,
+    size: cover.large.length + cover.thumbnail.length,
+  };
+}
@@ -0,0 +1,10 @@
+import { NextRequest } from "next/server";
+
+// Scheduled jobs are plain routes (see vercel.json). Vercel Cron sends
+// CRON_SECRET as a bearer token, anything else is turned away.
+export function isCronRequest(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  return (
+    !!secret && request.headers.get("authorization") === `Bearer ${secret}`
+  );
+}
@@ -0,0 +1,150 @@
+import { DeliveryChannel, NotificationDelivery } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { getMailTransport, MailTransport } from "@/lib/mail";
+import { digestEmail } from "@/lib/email-templates";
+import { publicFetch } from "@/lib/public-fetch";
+
+const DEFAULT_DELIVERY_MAX_ATTEMPTS = 5;
+
+// The first retry waits this long, every further one twice as long
+const RETRY_DELAY_MS = 15 * 60 * 1000;
+
+// Chat webhooks that take longer count as failed
+const CHAT_TIMEOUT_MS = 10 * 1000;
+
+// Attempts per email or chat message before it is given up, configurable
+// via DELIVERY_MAX_ATTEMPTS
+export function getDeliveryMaxAttempts() {
+  const attempts = Number(process.env.DELIVERY_MAX_ATTEMPTS);
+  return Number.isInteger(attempts) && attempts > 0
+    ? attempts
+    : DEFAULT_DELIVERY_MAX_ATTEMPTS;
+}
+
+interface Recipient {
+  name: string | null;
+  email: string | null;
+  chatWebhookUrl: string | null;
+}
+
+async function sendEmail(
+  transport: MailTransport,
+  recipient: Recipient,
+  deliveries: NotificationDelivery[]
+) {
+  if (!recipient.email) return;
+
+  const [first] = deliveries;
+  const content =
+    deliveries.length === 1
+      ? { subject: first.subject, text: first.text, html: first.html ?? "" }
+      : digestEmail({
+          name: recipient.name,
+          subjects: deliveries.map((delivery) => delivery.subject),
+        });
+
+  await transport.send({ to: recipient.email, ...content });
+}
+
+// Chat webhooks (Slack, Google Chat, Mattermost...) all accept a text field.
+// The URL is the user's, so it may only lead to a public host.
+async function sendChatMessage(
+  recipient: Recipient,
+  deliveries: NotificationDelivery[]
+) {
+  if (!recipient.chatWebhookUrl) return;
+
+  const response = await publicFetch(new URL(recipient.chatWebhookUrl), {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      text: deliveries.map((delivery) => delivery.text).join("\n"),
+    }),
+    signal: AbortSignal.timeout(CHAT_TIMEOUT_MS),
+  });
+  await response.body?.cancel();
+
+  if (!response.ok) {
+    throw new Error(`Chat webhook responded with ${response.status}`);
+  }
+}
+
+// Send queued emails and chat messages that are due. Everything due for the
+// same user and channel goes out as one message. Failed messages are
+// scheduled again with exponential backoff until they run out of attempts.
+// Returns the number of messages sent.
+export async function sendPendingDeliveries(now: Date = new Date()) {
+  const transport = getMailTransport();
+  const pending = await prisma.notificationDelivery.findMany({
+    where: {
+      sentAt: null,
+      failedAt: null,
+      sendAfter: { lte: now },
+    },
+    include: {
+      user: {
+        select: {
+          name: true,
+          email: true,
+          chatWebhookUrl: true,
+        },
+      },
+    },
+    orderBy: {
+      createdAt: "asc",
+    },
+  });
+
+  const groups = new Map<string, typeof pending>();
+  for (const delivery of pending) {
+    const key = `${delivery.userId}:${delivery.channel}`;
+    groups.set(key, [...(groups.get(key) ?? []), delivery]);
+  }
+
+  let sent = 0;
+  for (const deliveries of groups.values()) {
+    const ids = deliveries.map((delivery) => delivery.id);
+    const { user, channel } = deliveries[0];
+
+    // Claim the group first, so overlapping runs do not send it twice
+    const { count } = await prisma.notificationDelivery.updateMany({
+      where: { id: { in: ids }, sentAt: null },
+      data: { sentAt: now },
+    });
+    if (count === 0) continue;
+
+    try {
+      if (channel === DeliveryChannel.EMAIL) {
+        await sendEmail(transport, user, deliveries);
+      } else {
+        await sendChatMessage(user, deliveries);
+      }
+      sent++;
+    } catch (error) {
+      console.error(
+        `Error sending ${channel} to ${deliveries[0].userId}:`,
+        error
+      );
+      const attempts =
+        Math.max(...deliveries.map((delivery) => delivery.attempts)) + 1;
+      await prisma.notificationDelivery.updateMany({
+        where: { id: { in: ids } },
+        data: {
+          sentAt: null,
+          attempts,
+          ...(attempts >= getDeliveryMaxAttempts()
+            ? { failedAt: now }
+            : {
+                sendAfter: new Date(
+                  now.getTime() + RETRY_DELAY_MS * 2 ** (attempts - 1)
+                ),
+              }),
+        },
+      });
+    }
+  }
+
+  return sent;
+}
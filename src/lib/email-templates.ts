@@ -0,0 +1,147 @@
+import { getAppUrl } from "@/lib/mail";
+
+export interface EmailContent {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+interface Template {
+  subject: string;
+  greeting: string;
+  paragraphs: string[];
+  action: { label: string; path: string };
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function formatDate(date: Date) {
+  return date.toLocaleDateString("cs-CZ", {
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+  });
+}
+
+// Every email shares the same plain layout, in a text and an HTML version
+function render({
+  subject,
+  greeting,
+  paragraphs,
+  action,
+}: Template): EmailContent {
+  const url = `${getAppUrl()}${action.path}`;
+
+  const text = [greeting, ...paragraphs, `${action.label}: ${url}`].join(
+    "\n\n"
+  );
+  const html = `<!doctype html>
+<html>
+  <body style="font-family: sans-serif; line-height: 1.5; color: #111;">
+    <p>${escapeHtml(greeting)}</p>
+    ${paragraphs.map((paragraph) => `<p>${escapeHtml(paragraph)}</p>`).join("\n    ")}
+    <p><a href="${escapeHtml(url)}">${escapeHtml(action.label)}</a></p>
+  </body>
+</html>`;
+
+  return { subject, text, html };
+}
+
+function greet(name: string | null) {
+  return name ? `Hi ${name},` : "Hi,";
+}
+
+interface LoanDetails {
+  name: string | null;
+  title: string;
+  dueAt: Date;
+}
+
+export function dueSoonEmail({ name, title, dueAt }: LoanDetails) {
+  return render({
+    subject: `"${title}" is due on ${formatDate(dueAt)}`,
+    greeting: greet(name),
+    paragraphs: [
+      `just a reminder that "${title}" is due back on ${formatDate(dueAt)}.`,
+      "If you need it for longer, you can renew the loan in My Books.",
+    ],
+    action: { label: "Open My Books", path: "/my-books" },
+  });
+}
+
+export function overdueEmail({ name, title, dueAt }: LoanDetails) {
+  return render({
+    subject: `"${title}" is overdue`,
+    greeting: greet(name),
+    paragraphs: [
+      `"${title}" was due back on ${formatDate(dueAt)}.`,
+      "Please return it to the library as soon as you can, someone may be waiting for it.",
+    ],
+    action: { label: "Open My Books", path: "/my-books" },
+  });
+}
+
+export function ownerOverdueEmail({
+  name,
+  title,
+  dueAt,
+  bookId,
+  borrowerName,
+}: LoanDetails & { bookId: string; borrowerName: string | null }) {
+  return render({
+    subject: `Your book "${title}" is overdue`,
+    greeting: greet(name),
+    paragraphs: [
+      `${borrowerName ?? "The borrower"} should have returned "${title}" on ${formatDate(dueAt)}.`,
+      "We have reminded them as well.",
+    ],
+    action: { label: "View the book", path: `/books/${bookId}` },
+  });
+}
+
+// Any notification that has no email of its own
+export function notificationEmail({
+  name,
+  message,
+  bookId,
+}: {
+  name: string | null;
+  message: string;
+  bookId?: string | null;
+}) {
+  return render({
+    subject: message,
+    greeting: greet(name),
+    paragraphs: [`${message}.`],
+    action: bookId
+      ? { label: "View the book", path: `/books/${bookId}` }
+      : { label: "Open the library", path: "/" },
+  });
+}
+
+// Several emails that became due together, e.g. after quiet hours or for
+// users who asked for a digest
+export function digestEmail({
+  name,
+  subjects,
+}: {
+  name: string | null;
+  subjects: string[];
+}) {
+  return render({
+    subject: `${subjects.length} updates from the library`,
+    greeting: greet(name),
+    paragraphs: [
+      "here is what happened since your last update:",
+      ...subjects.map((subject) => `- ${subject}`),
+    ],
+    action: { label: "Open My Books", path: "/my-books" },
+  });
+}
@@ -0,0 +1,97 @@
+// Covers for books without one, drawn from the title and author in a color
+// derived from the ISBN. The same book always gets the same cover, so the
+// images can be cached forever.
+
+const COVER_WIDTH = 400;
+const COVER_HEIGHT = 600;
+const MARGIN = 56;
+
+const TITLE_LINE_CHARS = 16;
+const TITLE_MAX_LINES = 5;
+const AUTHOR_LINE_CHARS = 26;
+const AUTHOR_MAX_LINES = 2;
+
+export interface CoverText {
+  title: string;
+  author: string;
+  isbn?: string | null;
+}
+
+// FNV-1a, stable across runs and platforms
+function hash(value: string) {
+  let hash = 0x811c9dc5;
+  for (const char of value) {
+    hash ^= char.codePointAt(0)!;
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Books without an ISBN take their color from the title and author
+export function getCoverHue({ title, author, isbn }: CoverText) {
+  return hash(isbn || `${title}\n${author}`) % 360;
+}
+
+function escapeXml(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// Break text into lines of about maxChars, ending with an ellipsis when it
+// does not fit into maxLines
+function wrapText(text: string, maxChars: number, maxLines: number) {
+  const lines: string[] = [];
+  for (const word of text.trim().split(/\s+/)) {
+    const last = lines[lines.length - 1];
+    if (last !== undefined && `${last} ${word}`.length <= maxChars) {
+      lines[lines.length - 1] = `${last} ${word}`;
+    } else {
+      lines.push(
+        word.length > maxChars ? `${word.slice(0, maxChars - 1)}…` : word
+      );
+    }
+  }
+
+  if (lines.length <= maxLines) return lines;
+  const kept = lines.slice(0, maxLines);
+  kept[maxLines - 1] = `${kept[maxLines - 1].slice(0, maxChars - 1)}…`;
+  return kept;
+}
+
+function textLines(lines: string[], lineHeight: number) {
+  return lines
+    .map(
+      (line, i) =>
+        `<tspan x="${MARGIN}" dy="${i === 0 ? 0 : lineHeight}">${escapeXml(line)}</tspan>`
+    )
+    .join("");
+}
+
+export function generateCoverSvg(book: CoverText) {
+  const hue = getCoverHue(book);
+  const authorLines = wrapText(
+    book.author,
+    AUTHOR_LINE_CHARS,
+    AUTHOR_MAX_LINES
+  );
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${COVER_WIDTH}" height="${COVER_HEIGHT}" viewBox="0 0 ${COVER_WIDTH} ${COVER_HEIGHT}">
+  <rect width="${COVER_WIDTH}" height="${COVER_HEIGHT}" fill="hsl(${hue}, 45%, 32%)"/>
+  <rect width="20" height="${COVER_HEIGHT}" fill="hsl(${hue}, 45%, 22%)"/>
+  <rect x="${MARGIN}" y="96" width="${COVER_WIDTH - 2 * MARGIN}" height="4" fill="hsl(${hue}, 60%, 75%)"/>
+  <text x="${MARGIN}" y="168" font-family="Georgia, 'Times New Roman', serif" font-size="32" font-weight="bold" fill="#ffffff">${textLines(wrapText(book.title, TITLE_LINE_CHARS, TITLE_MAX_LINES), 40)}</text>
+  <text x="${MARGIN}" y="${COVER_HEIGHT - 64 - (authorLines.length - 1) * 30}" font-family="system-ui, sans-serif" font-size="22" fill="hsl(${hue}, 60%, 85%)">${textLines(authorLines, 30)}</text>
+</svg>
+`;
+}
+
+// URL of the generated cover, see /api/covers/generated
+export function getGeneratedCoverUrl({ title, author, isbn }: CoverText) {
+  const params = new URLSearchParams({ title, author });
+  if (isbn) params.set("isbn", isbn);
+  return `/api/covers/generated?${params}`;
+}
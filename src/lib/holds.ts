@@ -0,0 +1,156 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { notify } from "@/lib/notifications";
+
+const DEFAULT_CLAIM_WINDOW_HOURS = 48;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// How long the first person in the queue has to rent a returned book,
+// configurable via HOLD_CLAIM_HOURS
+export function getClaimWindowHours() {
+  const hours = Number(process.env.HOLD_CLAIM_HOURS);
+  return Number.isInteger(hours) && hours > 0
+    ? hours
+    : DEFAULT_CLAIM_WINDOW_HOURS;
+}
+
+const holdInclude = {
+  user: {
+    select: {
+      id: true,
+      name: true,
+      image: true,
+    },
+  },
+} satisfies Prisma.HoldInclude;
+
+// The hold queue of a book in FIFO order, without holds whose claim window
+// lapsed. Read-only, the queue itself is advanced by syncHoldQueue.
+export async function getHoldQueue(
+  bookId: string,
+  db: Prisma.TransactionClient = prisma
+) {
+  return db.hold.findMany({
+    where: {
+      bookId,
+      OR: [{ claimExpiresAt: null }, { claimExpiresAt: { gte: new Date() } }],
+    },
+    include: holdInclude,
+    orderBy: {
+      createdAt: "asc",
+    },
+  });
+}
+
+// Bring the hold queue of a book up to date and return it in FIFO order.
+// Holds whose claim window lapsed are dropped, and for every copy that is
+// not rented the next hold in line gets an exclusive claim window and a
+// notification. Claims beyond the free copies are taken back.
+export async function syncHoldQueue(
+  bookId: string,
+  db: Prisma.TransactionClient = prisma
+) {
+  const now = new Date();
+
+  await db.hold.deleteMany({
+    where: {
+      bookId,
+      claimExpiresAt: { lt: now },
+    },
+  });
+
+  const [copyCount, activeRentalCount, holds] = await Promise.all([
+    db.bookCopy.count({
+      where: { bookId, retiredAt: null },
+    }),
+    db.rental.count({
+      where: {
+        bookId,
+        returnedAt: null,
+      },
+    }),
+    db.hold.findMany({
+      where: { bookId },
+      include: holdInclude,
+      orderBy: {
+        createdAt: "asc",
+      },
+    }),
+  ]);
+
+  let unclaimedCopies =
+    copyCount -
+    activeRentalCount -
+    holds.filter((hold) => hold.claimExpiresAt).length;
+
+  // With copies removed there can be more claims than free copies, the
+  // holds last in line go back to waiting
+  for (let i = holds.length - 1; i >= 0 && unclaimedCopies < 0; i--) {
+    if (!holds[i].claimExpiresAt) continue;
+
+    await db.hold.update({
+      where: { id: holds[i].id },
+      data: { claimExpiresAt: null },
+    });
+    holds[i] = { ...holds[i], claimExpiresAt: null };
+    unclaimedCopies++;
+  }
+
+  let title: string | undefined;
+  for (let i = 0; i < holds.length && unclaimedCopies > 0; i++) {
+    if (holds[i].claimExpiresAt) continue;
+
+    title ??= (
+      await db.book.findUniqueOrThrow({
+        where: { id: bookId },
+        select: { title: true },
+      })
+    ).title;
+
+    // Only the run that sets the claim notifies, so overlapping syncs do
+    // not announce the same copy twice
+    const claimExpiresAt = new Date(
+      now.getTime() + getClaimWindowHours() * HOUR_MS
+    );
+    const { count } = await db.hold.updateMany({
+      where: { id: holds[i].id, claimExpiresAt: null },
+      data: { claimExpiresAt },
+    });
+    holds[i] = { ...holds[i], claimExpiresAt };
+    if (count > 0) {
+      await notify(
+        {
+          userId: holds[i].userId,
+          type: "HOLD_READY",
+          message: `"${title}" is available, rent it within ${getClaimWindowHours()} hours to keep your place`,
+          bookId,
+        },
+        db
+      );
+    }
+    unclaimedCopies--;
+  }
+
+  return holds;
+}
+
+// Advance the hold queues of all books, so lapsed claims are passed on even
+// when nobody touches the book. Returns the number of queues synced.
+export async function syncAllHoldQueues() {
+  const books = await prisma.hold.findMany({
+    where: {
+      book: { deletedAt: null },
+    },
+    select: {
+      bookId: true,
+    },
+    distinct: ["bookId"],
+  });
+
+  for (const { bookId } of books) {
+    await syncHoldQueue(bookId);
+  }
+
+  return books.length;
+}
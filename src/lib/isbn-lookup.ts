@@ -0,0 +1,149 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+
+export interface IsbnMetadata {
+  isbn: string;
+  title: string;
+  author: string;
+  description: string | null;
+  coverImage: string | null;
+}
+
+export interface IsbnProvider {
+  name: string;
+  // Resolves to null when the provider does not know the ISBN
+  lookup(isbn: string): Promise<IsbnMetadata | null>;
+}
+
+const LOOKUP_TIMEOUT_MS = 5000;
+const LOOKUP_REVALIDATE_SECONDS = 60 * 60 * 24;
+
+async function fetchJson(url: string) {
+  const response = await fetch(url, {
+    signal: AbortSignal.timeout(LOOKUP_TIMEOUT_MS),
+    next: { revalidate: LOOKUP_REVALIDATE_SECONDS },
+  });
+
+  if (!response.ok) {
+    throw new Error(
+      `Request to ${new URL(url).host} failed: ${response.status}`
+    );
+  }
+  return response.json();
+}
+
+// https://openlibrary.org/dev/docs/api/books
+export const openLibraryProvider: IsbnProvider = {
+  name: "openlibrary",
+  async lookup(isbn) {
+    const data = await fetchJson(
+      `https://openlibrary.org/api/books?bibkeys=ISBN:${isbn}&format=json&jscmd=data`
+    );
+    const book = data[`ISBN:${isbn}`];
+    if (!book?.title) return null;
+
+    const notes =
+      typeof book.notes === "string" ? book.notes : book.notes?.value;
+
+    return {
+      isbn,
+      title: book.subtitle ? `${book.title}: ${book.subtitle}` : book.title,
+      author: (book.authors ?? [])
+        .map((author: { name: string }) => author.name)
+        .join(", "),
+      description: notes || null,
+      coverImage: book.cover?.large ?? book.cover?.medium ?? null,
+    };
+  },
+};
+
+// https://developers.google.com/books/docs/v1/using
+export const googleBooksProvider: IsbnProvider = {
+  name: "googlebooks",
+  async lookup(isbn) {
+    const params = new URLSearchParams({ q: `isbn:${isbn}` });
+    if (process.env.GOOGLE_BOOKS_API_KEY) {
+      params.set("key", process.env.GOOGLE_BOOKS_API_KEY);
+    }
+
+    const data = await fetchJson(
+      `https://www.googleapis.com/books/v1/volumes?${params}`
+    );
+    const volume = data.items?.[0]?.volumeInfo;
+    if (!volume?.title) return null;
+
+    const thumbnail: string | undefined =
+      volume.imageLinks?.thumbnail ?? volume.imageLinks?.smallThumbnail;
+
+    return {
+      isbn,
+      title: volume.subtitle
+        ? `${volume.title}: ${volume.subtitle}`
+        : volume.title,
+      author: (volume.authors ?? []).join(", "),
+      description: volume.description ?? null,
+      coverImage: thumbnail?.replace(/^http:/, "https:") ?? null,
+    };
+  },
+};
+
+// Reads metadata from a local JSON file keyed by ISBN-13, for offline
+// development and tests. The file is set with ISBN_FIXTURES_PATH.
+export const fixtureProvider: IsbnProvider = {
+  name: "fixture",
+  async lookup(isbn) {
+    const fixturesPath =
+      process.env.ISBN_FIXTURES_PATH ??
+      path.join(process.cwd(), "src/lib/isbn-fixtures.json");
+    const fixtures: Record<string, Omit<IsbnMetadata, "isbn">> = JSON.parse(
+      await readFile(fixturesPath, "utf8")
+    );
+    const book = fixtures[isbn];
+    if (!book) return null;
+
+    return {
+      isbn,
+      title: book.title,
+      author: book.author,
+      description: book.description ?? null,
+      coverImage: book.coverImage ?? null,
+    };
+  },
+};
+
+const providers: Record<string, IsbnProvider> = {
+  [openLibraryProvider.name]: openLibraryProvider,
+  [googleBooksProvider.name]: googleBooksProvider,
+  [fixtureProvider.name]: fixtureProvider,
+};
+
+// Providers to query in order, configurable via ISBN_PROVIDERS
+// (comma separated, e.g. "fixture" or "googlebooks,openlibrary")
+export function getIsbnProviders() {
+  const names = (process.env.ISBN_PROVIDERS ?? "openlibrary,googlebooks")
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean);
+
+  return names.map((name) => {
+    const provider = providers[name];
+    if (!provider) {
+      throw new Error(`Unknown ISBN provider: ${name}`);
+    }
+    return provider;
+  });
+}
+
+// Look up an ISBN-13 with each configured provider until one knows it. A
+// failing provider is logged and skipped.
+export async function lookupIsbn(isbn: string) {
+  for (const provider of getIsbnProviders()) {
+    try {
+      const metadata = await provider.lookup(isbn);
+      if (metadata) return metadata;
+    } catch (error) {
+      console.error(`ISBN lookup with ${provider.name} failed:`, error);
+    }
+  }
+  return null;
+}
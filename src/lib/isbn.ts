@@ -0,0 +1,47 @@
+// ISBN validation and normalization, shared by the API and the add book form
+
+function stripIsbn(input: string) {
+  return input.replace(/[\s-]/g, "").toUpperCase();
+}
+
+export function isValidIsbn10(isbn: string) {
+  if (!/^\d{9}[\dX]$/.test(isbn)) return false;
+
+  let sum = 0;
+  for (let i = 0; i < 10; i++) {
+    const digit = isbn[i] === "X" ? 10 : Number(isbn[i]);
+    sum += digit * (10 - i);
+  }
+  return sum % 11 === 0;
+}
+
+export function isValidIsbn13(isbn: string) {
+  if (!/^\d{13}$/.test(isbn)) return false;
+
+  let sum = 0;
+  for (let i = 0; i < 13; i++) {
+    sum += Number(isbn[i]) * (i % 2 === 0 ? 1 : 3);
+  }
+  return sum % 10 === 0;
+}
+
+// Convert a valid ISBN-10 to its ISBN-13 (978 prefix) form
+export function isbn10To13(isbn10: string) {
+  const base = `978${isbn10.slice(0, 9)}`;
+
+  let sum = 0;
+  for (let i = 0; i < 12; i++) {
+    sum += Number(base[i]) * (i % 2 === 0 ? 1 : 3);
+  }
+  return `${base}${(10 - (sum % 10)) % 10}`;
+}
+
+// Returns the ISBN-13 form of an ISBN-10 or ISBN-13 (hyphens and spaces are
+// ignored), or null when the checksum does not match
+export function normalizeIsbn(input: string) {
+  const isbn = stripIsbn(input);
+
+  if (isValidIsbn13(isbn)) return isbn;
+  if (isValidIsbn10(isbn)) return isbn10To13(isbn);
+  return null;
+}
@@ -0,0 +1,74 @@
+import { NotificationType, Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { getAppUrl } from "@/lib/mail";
+import { EmailContent, notificationEmail } from "@/lib/email-templates";
+import {
+  getChannels,
+  getSendAfter,
+  preferencesSelect,
+} from "@/lib/preferences";
+
+export interface NotificationInput {
+  userId: string;
+  type: NotificationType;
+  message: string;
+  bookId?: string;
+  rentalId?: string;
+  // Defaults to a short email with the message
+  email?: EmailContent;
+}
+
+// Notify a user on the channels they chose for this type. Emails and chat
+// messages are queued for the delivery job (see deliveries.ts). Pass the
+// transaction client to notify together with the change.
+export async function notify(
+  { email, ...input }: NotificationInput,
+  db: Prisma.TransactionClient = prisma
+) {
+  const user = await db.user.findUnique({
+    where: { id: input.userId },
+    select: {
+      name: true,
+      ...preferencesSelect,
+    },
+  });
+
+  if (!user) return;
+
+  const channels = getChannels(user, input.type);
+
+  if (channels.includes("IN_APP")) {
+    await db.notification.create({
+      data: input,
+    });
+  }
+
+  if (channels.includes("EMAIL")) {
+    await db.notificationDelivery.create({
+      data: {
+        userId: input.userId,
+        channel: "EMAIL",
+        ...(email ??
+          notificationEmail({
+            name: user.name,
+            message: input.message,
+            bookId: input.bookId,
+          })),
+        sendAfter: getSendAfter(user, "EMAIL"),
+      },
+    });
+  }
+
+  if (channels.includes("CHAT") && user.chatWebhookUrl) {
+    const link = `${getAppUrl()}${input.bookId ? `/books/${input.bookId}` : "/"}`;
+    await db.notificationDelivery.create({
+      data: {
+        userId: input.userId,
+        channel: "CHAT",
+        subject: input.message,
+        text: `${input.message} ${link}`,
+        sendAfter: getSendAfter(user, "CHAT"),
+      },
+    });
+  }
+}
@@ -0,0 +1,110 @@
+import { randomBytes, scrypt, timingSafeEqual } from "node:crypto";
+import { promisify } from "node:util";
+import { prisma } from "@/lib/prisma";
+import * as z from "zod";
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keyLength: number
+) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+
+const DEFAULT_SIGN_IN_MAX_ATTEMPTS = 5;
+
+// Attempts are counted over this window
+const ATTEMPT_WINDOW_MS = 15 * 60 * 1000;
+
+// Compared against when there is no user, so unknown addresses take as long
+// to reject as wrong passwords
+const DUMMY_HASH = `scrypt:${"0".repeat(32)}:${"0".repeat(KEY_LENGTH * 2)}`;
+
+export const passwordSchema = z
+  .string()
+  .min(10, "Password must be at least 10 characters")
+  .max(200, "Password must be at most 200 characters");
+
+export const credentialsSchema = z.object({
+  email: z.email().trim().toLowerCase(),
+  password: z.string().min(1).max(200),
+});
+
+// Password sign-in attempts per address within 15 minutes, configurable via
+// SIGN_IN_MAX_ATTEMPTS
+export function getSignInMaxAttempts() {
+  const attempts = Number(process.env.SIGN_IN_MAX_ATTEMPTS);
+  return Number.isInteger(attempts) && attempts > 0
+    ? attempts
+    : DEFAULT_SIGN_IN_MAX_ATTEMPTS;
+}
+
+// Stored as "scrypt:<salt>:<key>", both hex
+export async function hashPassword(password: string) {
+  const salt = randomBytes(16);
+  const key = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt:${salt.toString("hex")}:${key.toString("hex")}`;
+}
+
+async function verifyPassword(password: string, hash: string) {
+  const [scheme, salt, key] = hash.split(":");
+  if (scheme !== "scrypt" || !salt || !key) return false;
+
+  const expected = Buffer.from(key, "hex");
+  const actual = await scryptAsync(
+    password,
+    Buffer.from(salt, "hex"),
+    expected.length
+  );
+  return timingSafeEqual(actual, expected);
+}
+
+// Check the password of the user with the given email, at most
+// SIGN_IN_MAX_ATTEMPTS times per window. The attempt is recorded before it
+// is checked, so concurrent guesses count too. Returns the user when the
+// password is right.
+export async function checkPassword(
+  email: string,
+  password: string,
+  now: Date = new Date()
+) {
+  await prisma.signInAttempt.create({
+    data: { email },
+  });
+  const attempts = await prisma.signInAttempt.count({
+    where: {
+      email,
+      createdAt: { gt: new Date(now.getTime() - ATTEMPT_WINDOW_MS) },
+    },
+  });
+  if (attempts > getSignInMaxAttempts()) return null;
+
+  const user = await prisma.user.findUnique({
+    where: { email },
+    select: {
+      id: true,
+      name: true,
+      email: true,
+      image: true,
+      role: true,
+      passwordHash: true,
+    },
+  });
+  const valid = await verifyPassword(
+    password,
+    user?.passwordHash ?? DUMMY_HASH
+  );
+  if (!user?.passwordHash || !valid) return null;
+
+  await prisma.signInAttempt.deleteMany({
+    where: { email },
+  });
+
+  return {
+    id: user.id,
+    name: user.name,
+    email: user.email,
+    image: user.image,
+    role: user.role,
+  };
+}
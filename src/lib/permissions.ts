@@ -0,0 +1,95 @@
+import { Role } from "@prisma/client";
+import { auth } from "@/lib/auth";
+
+export interface SessionUser {
+  id: string;
+  role: Role;
+}
+
+const roleRank: Record<Role, number> = {
+  MEMBER: 0,
+  LIBRARIAN: 1,
+  ADMIN: 2,
+};
+
+// Minimum role for each action. Owners may always act on their own books,
+// copies and rentals - the role is what it takes to do the same to
+// someone else's.
+const actionRoles = {
+  "book.create": "MEMBER",
+  "book.update": "LIBRARIAN",
+  "book.delete": "LIBRARIAN",
+  "book.restore": "ADMIN",
+  "copy.create": "MEMBER",
+  "copy.update": "LIBRARIAN",
+  "copy.delete": "LIBRARIAN",
+  "rental.return": "LIBRARIAN",
+  "rental.renew": "LIBRARIAN",
+  "category.create": "LIBRARIAN",
+  "user.updateRole": "ADMIN",
+  "admin.access": "ADMIN",
+  "book.reassign": "ADMIN",
+  "signInException.manage": "ADMIN",
+  "audit.read": "ADMIN",
+  "webhook.manage": "ADMIN",
+} satisfies Record<string, Role>;
+
+export type Action = keyof typeof actionRoles;
+
+export type Authorization =
+  | { allowed: true; overrideReason: string | null }
+  | { allowed: false; error: string; status: 400 | 403 };
+
+// The signed in user, or null for anonymous requests
+export async function getCurrentUser(): Promise<SessionUser | null> {
+  const session = await auth();
+
+  if (!session?.user?.id) return null;
+  return { id: session.user.id, role: session.user.role };
+}
+
+export function hasRole(user: SessionUser, role: Role) {
+  return roleRank[user.role] >= roleRank[role];
+}
+
+export function can(user: SessionUser, action: Action, ownerId?: string) {
+  return ownerId === user.id || hasRole(user, actionRoles[action]);
+}
+
+// Check an action on something owned by ownerId. Librarians and admins may
+// override the ownership check, but only with a reason for the audit log.
+export function authorize(
+  user: SessionUser,
+  action: Action,
+  {
+    ownerId,
+    reason,
+    deniedMessage,
+  }: { ownerId: string; reason?: string; deniedMessage: string }
+): Authorization {
+  if (ownerId === user.id) {
+    return { allowed: true, overrideReason: null };
+  }
+
+  if (!hasRole(user, actionRoles[action])) {
+    return { allowed: false, error: deniedMessage, status: 403 };
+  }
+
+  if (!reason) {
+    return {
+      allowed: false,
+      error: "A reason is required when acting on behalf of another user",
+      status: 400,
+    };
+  }
+
+  return { allowed: true, overrideReason: reason };
+}
+
+// The override reason from a request body, if one was given
+export function getOverrideReason(body: unknown) {
+  if (typeof body !== "object" || body === null || !("reason" in body)) {
+    return undefined;
+  }
+  return typeof body.reason === "string" ? body.reason.trim() : undefined;
+}
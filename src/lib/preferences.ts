@@ -0,0 +1,215 @@
+import {
+  DeliveryChannel,
+  DigestFrequency,
+  NotificationType,
+  Prisma,
+} from "@prisma/client";
+import * as z from "zod";
+
+// For quiet hours and digests of users who have not set a time zone
+const DEFAULT_TIME_ZONE = "Europe/Prague";
+
+// Digests go out at 8:00, weekly ones on Mondays
+const DIGEST_TIME = 8 * 60;
+const DIGEST_WEEKDAY = 1;
+
+const DAY_MINUTES = 24 * 60;
+const MINUTE_MS = 60 * 1000;
+
+export const notificationChannels = ["IN_APP", "EMAIL", "CHAT"] as const;
+
+export type NotificationChannel = (typeof notificationChannels)[number];
+
+export type ChannelPreferences = Record<
+  NotificationType,
+  NotificationChannel[]
+>;
+
+// Channels for events the user has not chosen any for
+export const defaultChannels: ChannelPreferences = {
+  BOOK_RENTED: ["IN_APP"],
+  BOOK_RETURNED: ["IN_APP"],
+  HOLD_READY: ["IN_APP", "EMAIL"],
+  LOAN_DUE_SOON: ["EMAIL"],
+  LOAN_OVERDUE: ["IN_APP", "EMAIL"],
+  OWNER_LOAN_OVERDUE: ["EMAIL"],
+};
+
+// The User fields holding the preferences
+export const preferencesSelect = {
+  notificationChannels: true,
+  digestFrequency: true,
+  quietHoursStart: true,
+  quietHoursEnd: true,
+  timeZone: true,
+  chatWebhookUrl: true,
+} satisfies Prisma.UserSelect;
+
+export type StoredPreferences = Prisma.UserGetPayload<{
+  select: typeof preferencesSelect;
+}>;
+
+function isTimeZone(timeZone: string) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function formatTime(minutes: number) {
+  const hours = Math.floor(minutes / 60);
+  return `${String(hours).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+}
+
+const timeSchema = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Quiet hours must be in HH:MM format")
+  .transform((value) => {
+    const [hours, minutes] = value.split(":").map(Number);
+    return hours * 60 + minutes;
+  });
+
+export const preferencesSchema = z
+  .object({
+    channels: z.partialRecord(
+      z.enum(NotificationType),
+      z
+        .array(z.enum(notificationChannels))
+        .transform((channels) => [...new Set(channels)])
+    ),
+    digestFrequency: z.enum(DigestFrequency),
+    quietHours: z
+      .object({
+        start: timeSchema,
+        end: timeSchema,
+      })
+      .nullable(),
+    timeZone: z
+      .string()
+      .refine(isTimeZone, "Unknown time zone")
+      .nullable()
+      .default(null),
+    chatWebhookUrl: z
+      .url({ protocol: /^https$/, error: "Chat webhook must be an https URL" })
+      .nullable()
+      .default(null),
+  })
+  .refine(
+    ({ channels, chatWebhookUrl }) =>
+      chatWebhookUrl ||
+      !Object.values(channels).some((list) => list?.includes("CHAT")),
+    "Add a chat webhook URL to get notifications in chat"
+  );
+
+export type PreferencesInput = z.infer<typeof preferencesSchema>;
+
+// Preferences as the User columns to store
+export function toUserData({
+  channels,
+  digestFrequency,
+  quietHours,
+  timeZone,
+  chatWebhookUrl,
+}: PreferencesInput) {
+  return {
+    notificationChannels: channels,
+    digestFrequency,
+    quietHoursStart: quietHours?.start ?? null,
+    quietHoursEnd: quietHours?.end ?? null,
+    timeZone,
+    chatWebhookUrl,
+  } satisfies Prisma.UserUpdateInput;
+}
+
+export function getChannels(
+  stored: StoredPreferences,
+  type: NotificationType
+): NotificationChannel[] {
+  const channels = stored.notificationChannels as Partial<ChannelPreferences>;
+  return channels?.[type] ?? defaultChannels[type];
+}
+
+// Preferences as the settings page edits them
+export function toPreferences(stored: StoredPreferences) {
+  return {
+    channels: Object.fromEntries(
+      Object.values(NotificationType).map((type) => [
+        type,
+        getChannels(stored, type),
+      ])
+    ) as ChannelPreferences,
+    digestFrequency: stored.digestFrequency,
+    quietHours:
+      stored.quietHoursStart !== null && stored.quietHoursEnd !== null
+        ? {
+            start: formatTime(stored.quietHoursStart),
+            end: formatTime(stored.quietHoursEnd),
+          }
+        : null,
+    timeZone: stored.timeZone,
+    chatWebhookUrl: stored.chatWebhookUrl,
+  };
+}
+
+// Minutes after midnight and day of the week (0 is Sunday) in a time zone
+function getLocalTime(date: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((p) => p.type === type)?.value ?? "";
+
+  return {
+    minutes: Number(part("hour")) * 60 + Number(part("minute")),
+    weekday: ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"].indexOf(
+      part("weekday")
+    ),
+  };
+}
+
+function minutesUntil(from: number, to: number) {
+  return (to - from + DAY_MINUTES) % DAY_MINUTES;
+}
+
+function isQuietTime(minutes: number, start: number, end: number) {
+  // Quiet hours may wrap around midnight, e.g. 22:00-07:00
+  return start <= end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+}
+
+// When an email or chat message created now may go out: emails of digest
+// users wait for the next digest, and nothing is sent during quiet hours
+export function getSendAfter(
+  stored: StoredPreferences,
+  channel: DeliveryChannel,
+  now: Date = new Date()
+) {
+  const { minutes, weekday } = getLocalTime(
+    now,
+    stored.timeZone ?? DEFAULT_TIME_ZONE
+  );
+  let delay = 0;
+
+  if (channel === "EMAIL" && stored.digestFrequency === "DAILY") {
+    delay = minutesUntil(minutes, DIGEST_TIME);
+  } else if (channel === "EMAIL" && stored.digestFrequency === "WEEKLY") {
+    let days = (DIGEST_WEEKDAY - weekday + 7) % 7;
+    if (days === 0 && minutes > DIGEST_TIME) days = 7;
+    delay = days * DAY_MINUTES + DIGEST_TIME - minutes;
+  }
+
+  const { quietHoursStart: start, quietHoursEnd: end } = stored;
+  const sendAt = (minutes + delay) % DAY_MINUTES;
+  if (start !== null && end !== null && isQuietTime(sendAt, start, end)) {
+    delay += minutesUntil(sendAt, end);
+  }
+
+  return new Date(now.getTime() + delay * MINUTE_MS);
+}
@@ -0,0 +1,153 @@
+import { lookup } from "node:dns";
+import http from "node:http";
+import https from "node:https";
+import { BlockList, isIP, LookupFunction } from "node:net";
+import { Readable } from "node:stream";
+
+// Addresses the server must not be made to connect to on a user's behalf:
+// itself, the internal network and anything not routed on the internet
+const blockedAddresses = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.0.2.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["198.51.100.0", 24],
+  ["203.0.113.0", 24],
+  // Multicast, then reserved up to and including broadcast
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  // Unspecified, loopback and IPv4-compatible, then NAT64, 6to4 and Teredo
+  // addresses, all of which can lead back to private IPv4 ones. IPv4-mapped
+  // addresses are checked against the IPv4 rules by BlockList itself (and
+  // a rule for them would match every IPv4 address).
+  ["::", 96],
+  ["64:ff9b::", 96],
+  ["64:ff9b:1::", 48],
+  ["2002::", 16],
+  ["2001::", 32],
+  ["100::", 64],
+  ["2001:db8::", 32],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["fec0::", 10],
+  ["ff00::", 8],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv6");
+}
+
+// Thrown when a host resolves to an address in blockedAddresses
+export class BlockedAddressError extends Error {
+  constructor(hostname: string) {
+    super(`${hostname} does not resolve to a public address`);
+    this.name = "BlockedAddressError";
+  }
+}
+
+function isPublicAddress(address: string) {
+  const family = isIP(address);
+  return (
+    family !== 0 &&
+    !blockedAddresses.check(address, family === 6 ? "ipv6" : "ipv4")
+  );
+}
+
+// DNS lookup of the connection itself, so the address that was checked is
+// the one connected to. A separate lookup before fetching could be answered
+// differently (DNS rebinding).
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, "");
+      return;
+    }
+    if (
+      addresses.length === 0 ||
+      !addresses.every(({ address }) => isPublicAddress(address))
+    ) {
+      callback(new BlockedAddressError(hostname), "");
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+export interface PublicFetchInit {
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string;
+  signal?: AbortSignal;
+}
+
+// Statuses whose responses cannot have a body
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+// Request an http(s) URL that users supplied, only ever connecting to public
+// addresses. Redirects are not followed, the caller has to check each hop
+// by requesting it again. Rejects with BlockedAddressError for other hosts.
+export function publicFetch(
+  url: URL,
+  { method = "GET", headers, body, signal }: PublicFetchInit = {}
+) {
+  return new Promise<Response>((resolve, reject) => {
+    if (!["http:", "https:"].includes(url.protocol)) {
+      reject(new Error(`Unsupported protocol ${url.protocol}`));
+      return;
+    }
+
+    // Literal addresses are connected to without a lookup
+    const hostname = url.hostname.replace(/^\[|\]$/g, "");
+    if (isIP(hostname) && !isPublicAddress(hostname)) {
+      reject(new BlockedAddressError(hostname));
+      return;
+    }
+
+    const request = (url.protocol === "https:" ? https : http).request(url, {
+      method,
+      headers,
+      signal,
+      lookup: publicLookup,
+    });
+
+    request.on("error", reject);
+    request.on("response", (response) => {
+      const responseHeaders = new Headers();
+      for (let i = 0; i < response.rawHeaders.length; i += 2) {
+        responseHeaders.append(
+          response.rawHeaders[i],
+          response.rawHeaders[i + 1]
+        );
+      }
+      const status = response.statusCode ?? 502;
+
+      if (NULL_BODY_STATUSES.includes(status)) {
+        response.resume();
+      }
+      resolve(
+        new Response(
+          NULL_BODY_STATUSES.includes(status)
+            ? null
+            : (Readable.toWeb(response) as ReadableStream<Uint8Array>),
+          { status, headers: responseHeaders }
+        )
+      );
+    });
+
+    request.end(body);
+  });
+}
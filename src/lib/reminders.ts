@@ -0,0 +1,183 @@
+import { NotificationType, Prisma, ReminderType } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { notify } from "@/lib/notifications";
+import { emitWebhookEvent, rentalEventData } from "@/lib/webhooks";
+import {
+  dueSoonEmail,
+  EmailContent,
+  overdueEmail,
+  ownerOverdueEmail,
+} from "@/lib/email-templates";
+
+const DEFAULT_REMINDER_DAYS_BEFORE = 2;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How many days before the due date borrowers get a reminder, configurable
+// via REMINDER_DAYS_BEFORE
+export function getReminderDaysBefore() {
+  const days = Number(process.env.REMINDER_DAYS_BEFORE);
+  return Number.isInteger(days) && days > 0
+    ? days
+    : DEFAULT_REMINDER_DAYS_BEFORE;
+}
+
+const reminderRentalInclude = {
+  user: {
+    select: {
+      name: true,
+    },
+  },
+  book: {
+    select: {
+      id: true,
+      title: true,
+    },
+  },
+  // The owner of the lent copy, who is not always the book's owner
+  copy: {
+    select: {
+      owner: {
+        select: {
+          id: true,
+          name: true,
+        },
+      },
+    },
+  },
+  reminders: true,
+} satisfies Prisma.RentalInclude;
+
+type ReminderRental = Prisma.RentalGetPayload<{
+  include: typeof reminderRentalInclude;
+}>;
+
+interface Reminder {
+  type: ReminderType;
+  notificationType: NotificationType;
+  userId: string;
+  message: string;
+  email: EmailContent;
+}
+
+// Reminders due for a rental, whether or not they were already sent
+function getReminders(rental: ReminderRental, now: Date): Reminder[] {
+  const loan = {
+    name: rental.user.name,
+    title: rental.book.title,
+    dueAt: rental.dueAt,
+  };
+
+  if (rental.dueAt >= now) {
+    const email = dueSoonEmail(loan);
+    return [
+      {
+        type: "DUE_SOON",
+        notificationType: "LOAN_DUE_SOON",
+        userId: rental.userId,
+        message: email.subject,
+        email,
+      },
+    ];
+  }
+
+  const { owner } = rental.copy;
+  const reminders: Reminder[] = [
+    {
+      type: "OVERDUE",
+      notificationType: "LOAN_OVERDUE",
+      userId: rental.userId,
+      message: `"${rental.book.title}" is overdue, please return it`,
+      email: overdueEmail(loan),
+    },
+  ];
+
+  // Owners who borrowed their own book only need the borrower reminder
+  if (owner.id !== rental.userId) {
+    reminders.push({
+      type: "OWNER_OVERDUE",
+      notificationType: "OWNER_LOAN_OVERDUE",
+      userId: owner.id,
+      message: `${rental.user.name ?? "The borrower"} has not returned "${rental.book.title}" yet`,
+      email: ownerOverdueEmail({
+        ...loan,
+        name: owner.name,
+        bookId: rental.book.id,
+        borrowerName: rental.user.name,
+      }),
+    });
+  }
+
+  return reminders;
+}
+
+// The reminder is recorded together with the notification, so two
+// overlapping runs cannot both send it
+async function sendReminder(rental: ReminderRental, reminder: Reminder) {
+  try {
+    await prisma.$transaction(async (tx) => {
+      await tx.reminder.create({
+        data: {
+          rentalId: rental.id,
+          type: reminder.type,
+          dueAt: rental.dueAt,
+        },
+      });
+
+      await notify(
+        {
+          userId: reminder.userId,
+          type: reminder.notificationType,
+          message: reminder.message,
+          bookId: rental.bookId,
+          rentalId: rental.id,
+          email: reminder.email,
+        },
+        tx
+      );
+
+      // Integrations hear about an overdue loan once per due date
+      if (reminder.type === "OVERDUE") {
+        await emitWebhookEvent("rental.overdue", rentalEventData(rental), tx);
+      }
+    });
+    return true;
+  } catch (error) {
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+// Remind borrowers shortly before their loan is due and once it is overdue,
+// and tell owners about overdue loans of their books. Each goes out on the
+// channels the recipient chose. Returns the number of reminders sent.
+export async function sendReminders(now: Date = new Date()) {
+  const rentals = await prisma.rental.findMany({
+    where: {
+      returnedAt: null,
+      dueAt: { lt: new Date(now.getTime() + getReminderDaysBefore() * DAY_MS) },
+    },
+    include: reminderRentalInclude,
+  });
+
+  let sent = 0;
+  for (const rental of rentals) {
+    for (const reminder of getReminders(rental, now)) {
+      const alreadySent = rental.reminders.some(
+        (r) =>
+          r.type === reminder.type &&
+          r.dueAt.getTime() === rental.dueAt.getTime()
+      );
+      if (!alreadySent && (await sendReminder(rental, reminder))) {
+        sent++;
+      }
+    }
+  }
+
+  return sent;
+}
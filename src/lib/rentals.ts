@@ -0,0 +1,58 @@
+import { Prisma } from "@prisma/client";
+
+const DEFAULT_LOAN_PERIOD_DAYS = 14;
+const DEFAULT_MAX_RENEWALS = 2;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Loan period in days, configurable via LOAN_PERIOD_DAYS
+export function getLoanPeriodDays() {
+  const days = Number(process.env.LOAN_PERIOD_DAYS);
+  return Number.isInteger(days) && days > 0 ? days : DEFAULT_LOAN_PERIOD_DAYS;
+}
+
+// How many times a single rental can be renewed, configurable via MAX_RENEWALS
+export function getMaxRenewals() {
+  const renewals = Number(process.env.MAX_RENEWALS);
+  return Number.isInteger(renewals) && renewals >= 0
+    ? renewals
+    : DEFAULT_MAX_RENEWALS;
+}
+
+// Due date for a rental starting at the given time
+export function calculateDueDate(from: Date = new Date()) {
+  return new Date(from.getTime() + getLoanPeriodDays() * DAY_MS);
+}
+
+// A rental is overdue when it is still active and past its due date
+export function isRentalOverdue(
+  rental: { dueAt: Date; returnedAt: Date | null },
+  now: Date = new Date()
+) {
+  return !rental.returnedAt && rental.dueAt.getTime() < now.getTime();
+}
+
+// Availability of a book from its number of copies and active rentals
+export function getAvailability(
+  copyCount: number,
+  activeRentals: { dueAt: Date; returnedAt: Date | null }[]
+) {
+  const availableCopies = Math.max(copyCount - activeRentals.length, 0);
+
+  return {
+    totalCopies: copyCount,
+    availableCopies,
+    isAvailable: availableCopies > 0,
+    isOverdue: activeRentals.some((rental) => isRentalOverdue(rental)),
+  };
+}
+
+// Errors raised when a concurrent request rented the same copy first: the
+// partial unique index on active rentals (P2002) or a serialization failure
+// of the rent transaction (P2034)
+export function isRentalConflictError(error: unknown) {
+  return (
+    error instanceof Prisma.PrismaClientKnownRequestError &&
+    (error.code === "P2002" || error.code === "P2034")
+  );
+}
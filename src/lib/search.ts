@@ -0,0 +1,161 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { bookListInclude, withAvailability } from "@/lib/books";
+
+// Markers ts_headline puts around matched words. Control characters never
+// appear in book data, so titles need no HTML escaping on the way out.
+const HIGHLIGHT_START = "\u0002";
+const HIGHLIGHT_STOP = "\u0003";
+const HIGHLIGHT_OPTIONS = `StartSel="${HIGHLIGHT_START}", StopSel="${HIGHLIGHT_STOP}"`;
+
+export interface HighlightSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+export interface SearchOptions {
+  q: string;
+  available?: boolean;
+  tag?: string;
+  // Ids of a category and its descendants
+  categoryIds?: string[];
+  offset: number;
+  limit: number;
+}
+
+interface SearchRow {
+  id: string;
+  score: number;
+  total: bigint;
+  titleHeadline: string;
+  authorHeadline: string;
+  descriptionHeadline: string | null;
+}
+
+// Split a ts_headline result into plain and highlighted parts
+export function parseHeadline(headline: string): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  let highlighted = false;
+
+  for (const part of headline.split(
+    new RegExp(`([${HIGHLIGHT_START}${HIGHLIGHT_STOP}])`)
+  )) {
+    if (part === HIGHLIGHT_START || part === HIGHLIGHT_STOP) {
+      highlighted = part === HIGHLIGHT_START;
+    } else if (part) {
+      segments.push({ text: part, highlighted });
+    }
+  }
+  return segments;
+}
+
+// Same rule as the available filter of GET /api/books: at least one copy
+// without an active rental
+function availabilityFilter(available: boolean | undefined) {
+  if (available === undefined) return Prisma.empty;
+
+  const hasFreeCopy = Prisma.sql`EXISTS (
+    SELECT 1 FROM "BookCopy" c
+    WHERE c."bookId" = b."id"
+      AND c."retiredAt" IS NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM "Rental" r
+        WHERE r."copyId" = c."id" AND r."returnedAt" IS NULL
+      )
+  )`;
+  return available
+    ? Prisma.sql`AND ${hasFreeCopy}`
+    : Prisma.sql`AND NOT ${hasFreeCopy}`;
+}
+
+function classificationFilter(tag?: string, categoryIds?: string[]) {
+  const conditions: Prisma.Sql[] = [];
+
+  if (tag) {
+    conditions.push(Prisma.sql`AND EXISTS (
+      SELECT 1 FROM "_BookToTag" bt
+      JOIN "Tag" t ON t."id" = bt."B"
+      WHERE bt."A" = b."id" AND t."name" = ${tag}
+    )`);
+  }
+  if (categoryIds) {
+    conditions.push(Prisma.sql`AND EXISTS (
+      SELECT 1 FROM "_BookToCategory" bc
+      WHERE bc."A" = b."id" AND bc."B" IN (${Prisma.join(categoryIds)})
+    )`);
+  }
+  return conditions.length > 0 ? Prisma.join(conditions, " ") : Prisma.empty;
+}
+
+// Rank books by full-text relevance (stemmed, accent insensitive) plus
+// trigram similarity of title and author, which catches typos
+export async function searchBooks({
+  q,
+  available,
+  tag,
+  categoryIds,
+  offset,
+  limit,
+}: SearchOptions) {
+  const rows = await prisma.$queryRaw<SearchRow[]>`
+    WITH query AS (
+      SELECT
+        websearch_to_tsquery('book_search', ${q}) AS tsq,
+        f_unaccent(lower(${q})) AS term
+    ),
+    matches AS (
+      SELECT
+        b."id", b."title", b."author", b."description",
+        ts_rank_cd(b."searchVector", query.tsq)
+          + word_similarity(query.term, f_unaccent(lower(b."title" || ' ' || b."author")))
+          AS score
+      FROM "Book" b, query
+      WHERE b."deletedAt" IS NULL
+      AND (
+        b."searchVector" @@ query.tsq
+        OR query.term <% f_unaccent(lower(b."title" || ' ' || b."author"))
+      )
+      ${availabilityFilter(available)}
+      ${classificationFilter(tag, categoryIds)}
+    )
+    SELECT
+      m."id",
+      m."score"::float8 AS "score",
+      count(*) OVER () AS "total",
+      ts_headline('book_search', m."title", query.tsq, ${`${HIGHLIGHT_OPTIONS}, HighlightAll=true`}) AS "titleHeadline",
+      ts_headline('book_search', m."author", query.tsq, ${`${HIGHLIGHT_OPTIONS}, HighlightAll=true`}) AS "authorHeadline",
+      ts_headline('book_search', m."description", query.tsq, ${HIGHLIGHT_OPTIONS}) AS "descriptionHeadline"
+    FROM matches m, query
+    ORDER BY m."score" DESC, m."id"
+    LIMIT ${limit} OFFSET ${offset}
+  `;
+
+  const books = await prisma.book.findMany({
+    where: { id: { in: rows.map((row) => row.id) } },
+    include: bookListInclude,
+  });
+  const booksById = new Map(books.map((book) => [book.id, book]));
+
+  // Keep the ranking order, skipping books deleted in the meantime
+  const results = rows.flatMap((row) => {
+    const book = booksById.get(row.id);
+    if (!book) return [];
+
+    return {
+      ...withAvailability(book),
+      score: row.score,
+      highlights: {
+        title: parseHeadline(row.titleHeadline),
+        author: parseHeadline(row.authorHeadline),
+        description: row.descriptionHeadline
+          ? parseHeadline(row.descriptionHeadline)
+          : null,
+      },
+    };
+  });
+
+  return {
+    results,
+    total: rows.length > 0 ? Number(rows[0].total) : 0,
+  };
+}
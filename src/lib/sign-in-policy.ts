@@ -0,0 +1,62 @@
+import { prisma } from "@/lib/prisma";
+import * as z from "zod";
+
+function parseList(value: string | undefined) {
+  return (value ?? "")
+    .split(",")
+    .map((item) => item.trim().toLowerCase().replace(/^@/, ""))
+    .filter(Boolean);
+}
+
+// Company domains allowed to sign in, configurable via ALLOWED_EMAIL_DOMAINS
+// (comma separated, e.g. "example.com,example.cz")
+export function getAllowedDomains() {
+  return parseList(process.env.ALLOWED_EMAIL_DOMAINS);
+}
+
+// Individual addresses allowed to sign in, configurable via ALLOWED_EMAILS
+export function getAllowedEmails() {
+  return parseList(process.env.ALLOWED_EMAILS);
+}
+
+// An exception is either a full address or a bare domain
+export const signInExceptionSchema = z.object({
+  value: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .transform((value) => value.replace(/^@/, ""))
+    .pipe(
+      z
+        .string()
+        .regex(
+          /^([^@\s]+@)?[^@\s]+\.[^@\s]+$/,
+          "Enter an email address or a domain"
+        )
+    ),
+  note: z
+    .string()
+    .trim()
+    .max(200)
+    .optional()
+    .transform((value) => value || null),
+});
+
+// Whether the email may sign in. Without any configured domains or addresses
+// the library stays open to everyone.
+export async function isEmailAllowed(email: string | null | undefined) {
+  const domains = getAllowedDomains();
+  const emails = getAllowedEmails();
+  if (domains.length === 0 && emails.length === 0) return true;
+
+  if (!email) return false;
+  const address = email.toLowerCase();
+  const domain = address.split("@").pop()!;
+
+  if (emails.includes(address) || domains.includes(domain)) return true;
+
+  const exception = await prisma.signInException.findFirst({
+    where: { value: { in: [address, domain] } },
+  });
+  return !!exception;
+}
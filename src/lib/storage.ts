@@ -0,0 +1,154 @@
+import { mkdir, readFile, unlink, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { del, put } from "@vercel/blob";
+import {
+  DeleteObjectCommand,
+  PutObjectCommand,
+  S3Client,
+} from "@aws-sdk/client-s3";
+
+const DEFAULT_LOCAL_UPLOAD_DIR = "public/uploads";
+const DEFAULT_S3_REGION = "us-east-1";
+
+// Local uploads are served under this path, see src/app/uploads
+export const LOCAL_UPLOAD_PATH = "/uploads";
+
+// Where uploaded files live. Keys are relative paths such as
+// "book-covers/123-abc.webp"; put returns the public URL of the file.
+export interface StorageProvider {
+  put(key: string, body: Buffer, contentType: string): Promise<string>;
+  // Files of other providers or other sites are left alone
+  delete(url: string): Promise<void>;
+}
+
+// Directory of the local provider, configurable via LOCAL_UPLOAD_DIR
+export function getLocalUploadDir() {
+  return path.resolve(
+    process.env.LOCAL_UPLOAD_DIR?.trim() || DEFAULT_LOCAL_UPLOAD_DIR
+  );
+}
+
+// The file a local upload key points to, or null when it would end up
+// outside the upload directory
+export function resolveLocalUpload(key: string) {
+  const dir = getLocalUploadDir();
+  const file = path.resolve(dir, key);
+  return file.startsWith(dir + path.sep) ? file : null;
+}
+
+export async function readLocalUpload(key: string) {
+  const file = resolveLocalUpload(key);
+  return file ? readFile(file) : null;
+}
+
+function vercelBlobStorage(): StorageProvider {
+  return {
+    async put(key, body, contentType) {
+      const blob = await put(key, body, {
+        access: "public",
+        contentType,
+      });
+      return blob.url;
+    },
+    async delete(url) {
+      if (
+        !URL.canParse(url) ||
+        !new URL(url).hostname.endsWith(".blob.vercel-storage.com")
+      ) {
+        return;
+      }
+      await del(url);
+    },
+  };
+}
+
+function localDiskStorage(): StorageProvider {
+  return {
+    async put(key, body) {
+      const file = resolveLocalUpload(key);
+      if (!file) throw new Error(`Invalid upload key: ${key}`);
+
+      await mkdir(path.dirname(file), { recursive: true });
+      await writeFile(file, body);
+      return `${LOCAL_UPLOAD_PATH}/${key}`;
+    },
+    async delete(url) {
+      if (!url.startsWith(`${LOCAL_UPLOAD_PATH}/`)) return;
+
+      const file = resolveLocalUpload(url.slice(LOCAL_UPLOAD_PATH.length + 1));
+      if (!file) return;
+      await unlink(file).catch((error) => {
+        if (error.code !== "ENOENT") throw error;
+      });
+    },
+  };
+}
+
+// S3 or anything speaking its API, such as MinIO. The bucket must allow
+// public reads of the uploaded objects.
+function s3Storage(): StorageProvider {
+  const bucket = process.env.S3_BUCKET?.trim();
+  if (!bucket) {
+    throw new Error("STORAGE_PROVIDER is s3 but S3_BUCKET is not set");
+  }
+
+  const endpoint = process.env.S3_ENDPOINT?.trim().replace(/\/$/, "");
+  const client = new S3Client({
+    region: process.env.S3_REGION?.trim() || DEFAULT_S3_REGION,
+    endpoint,
+    // MinIO and most self-hosted servers only support path-style URLs
+    forcePathStyle: !!endpoint,
+  });
+  const publicUrl = getS3PublicUrl(bucket, endpoint);
+
+  return {
+    async put(key, body, contentType) {
+      await client.send(
+        new PutObjectCommand({
+          Bucket: bucket,
+          Key: key,
+          Body: body,
+          ContentType: contentType,
+        })
+      );
+      return `${publicUrl}/${key}`;
+    },
+    async delete(url) {
+      if (!url.startsWith(`${publicUrl}/`)) return;
+
+      await client.send(
+        new DeleteObjectCommand({
+          Bucket: bucket,
+          Key: url.slice(publicUrl.length + 1),
+        })
+      );
+    },
+  };
+}
+
+// Base URL of the uploaded objects, configurable via S3_PUBLIC_URL (e.g. a
+// CDN in front of the bucket). Defaults to the bucket on S3_ENDPOINT, or
+// on AWS when there is no endpoint.
+function getS3PublicUrl(bucket: string, endpoint: string | undefined) {
+  const publicUrl = process.env.S3_PUBLIC_URL?.trim().replace(/\/$/, "");
+  if (publicUrl) return publicUrl;
+  if (endpoint) return `${endpoint}/${bucket}`;
+  return `https://${bucket}.s3.${process.env.S3_REGION?.trim() || DEFAULT_S3_REGION}.amazonaws.com`;
+}
+
+// Where uploads are stored, configurable via STORAGE_PROVIDER: "vercel-blob"
+// (the default when BLOB_READ_WRITE_TOKEN is set), "s3" or "local" (files in
+// LOCAL_UPLOAD_DIR, the default otherwise)
+export function getStorage(): StorageProvider {
+  const provider =
+    process.env.STORAGE_PROVIDER?.trim().toLowerCase() ||
+    (process.env.BLOB_READ_WRITE_TOKEN ? "vercel-blob" : "local");
+
+  if (provider === "vercel-blob") {
+    return vercelBlobStorage();
+  }
+  if (provider === "s3") {
+    return s3Storage();
+  }
+  return localDiskStorage();
+}
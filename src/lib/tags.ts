@@ -0,0 +1,25 @@
+import * as z from "zod";
+
+export const MAX_TAGS_PER_BOOK = 10;
+
+// Tag names of a book, shared by the create and update routes. Names are
+// lowercased so "Design" and "design" end up as the same tag.
+export const tagNamesSchema = z
+  .array(
+    z
+      .string()
+      .trim()
+      .toLowerCase()
+      .min(1, "Tag cannot be empty")
+      .max(30, "Tags can be at most 30 characters")
+  )
+  .max(MAX_TAGS_PER_BOOK, `A book can have at most ${MAX_TAGS_PER_BOOK} tags`)
+  .transform((names) => [...new Set(names)]);
+
+// Nested write linking a book to these tags, creating the missing ones
+export function connectTags(names: string[]) {
+  return names.map((name) => ({
+    where: { name },
+    create: { name },
+  }));
+}
@@ -0,0 +1,419 @@
+import sharp from "sharp";
+import { Prisma, Upload } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { BlockedAddressError, publicFetch } from "@/lib/public-fetch";
+import { getStorage } from "@/lib/storage";
+import type { StoredCover } from "@/lib/covers";
+
+const DEFAULT_UPLOAD_QUOTA_MB = 50;
+const DEFAULT_UPLOAD_RATE_LIMIT = 20;
+const DEFAULT_UPLOAD_ORPHAN_HOURS = 24;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Remote covers that take longer to download are given up
+const REMOTE_TIMEOUT_MS = 10 * 1000;
+const MAX_REDIRECTS = 3;
+
+export const MAX_UPLOAD_SIZE = 5 * 1024 * 1024;
+
+// Larger images are rejected before decoding, mostly to keep decompression
+// bombs out of the cover pipeline
+export const MAX_IMAGE_DIMENSION = 6000;
+export const MAX_IMAGE_PIXELS = 24_000_000;
+
+// Machine-readable reasons for a rejected upload, mapped to messages by the
+// client
+export type UploadErrorCode =
+  | "NO_FILE"
+  | "INVALID_URL"
+  | "REMOTE_FETCH_FAILED"
+  | "FILE_TOO_LARGE"
+  | "UNSUPPORTED_TYPE"
+  | "UNREADABLE_IMAGE"
+  | "ANIMATED_IMAGE"
+  | "DIMENSIONS_TOO_LARGE"
+  | "QUOTA_EXCEEDED"
+  | "RATE_LIMITED";
+
+type UploadRejection = {
+  allowed: false;
+  code: UploadErrorCode;
+  error: string;
+  status: 400 | 413 | 429;
+};
+
+export type UploadCheck = { allowed: true } | UploadRejection;
+
+export type RemoteImage = { allowed: true; data: Buffer } | UploadRejection;
+
+// Total size of a user's stored uploads, configurable via UPLOAD_QUOTA_MB
+export function getUploadQuota() {
+  const megabytes = Number(process.env.UPLOAD_QUOTA_MB);
+  return (
+    (Number.isInteger(megabytes) && megabytes > 0
+      ? megabytes
+      : DEFAULT_UPLOAD_QUOTA_MB) *
+    1024 *
+    1024
+  );
+}
+
+// Uploads per user and hour, configurable via UPLOAD_RATE_LIMIT
+export function getUploadRateLimit() {
+  const limit = Number(process.env.UPLOAD_RATE_LIMIT);
+  return Number.isInteger(limit) && limit > 0
+    ? limit
+    : DEFAULT_UPLOAD_RATE_LIMIT;
+}
+
+// Hours an upload may go unused before it is swept away, configurable via
+// UPLOAD_ORPHAN_HOURS. Covers are uploaded as soon as they are picked, so
+// this leaves time to finish filling in the book.
+export function getUploadOrphanHours() {
+  const hours = Number(process.env.UPLOAD_ORPHAN_HOURS);
+  return Number.isInteger(hours) && hours > 0
+    ? hours
+    : DEFAULT_UPLOAD_ORPHAN_HOURS;
+}
+
+function startsWith(data: Buffer, bytes: number[], offset = 0) {
+  return bytes.every((byte, i) => data[offset + i] === byte);
+}
+
+// The image type from the file's magic bytes. The type and name the browser
+// sent are never trusted, a renamed SVG or HTML file is not an image.
+export function detectImageType(data: Buffer) {
+  if (startsWith(data, [0xff, 0xd8, 0xff])) {
+    return "image/jpeg";
+  }
+  if (startsWith(data, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return "image/png";
+  }
+  if (/^GIF8[79]a$/.test(data.subarray(0, 6).toString("ascii"))) {
+    return "image/gif";
+  }
+  if (
+    data.subarray(0, 4).toString("ascii") === "RIFF" &&
+    data.subarray(8, 12).toString("ascii") === "WEBP"
+  ) {
+    return "image/webp";
+  }
+  return null;
+}
+
+// Check the actual content of an uploaded cover: a supported still image of
+// sensible dimensions
+export async function inspectImage(data: Buffer): Promise<UploadCheck> {
+  if (!detectImageType(data)) {
+    return {
+      allowed: false,
+      code: "UNSUPPORTED_TYPE",
+      error: "Only JPEG, PNG, WebP and GIF images are allowed",
+      status: 400,
+    };
+  }
+
+  // Reads the header only, nothing is decoded yet
+  const metadata = await sharp(data)
+    .metadata()
+    .catch(() => null);
+  if (!metadata?.width || !metadata.height) {
+    return {
+      allowed: false,
+      code: "UNREADABLE_IMAGE",
+      error: "The image could not be read",
+      status: 400,
+    };
+  }
+
+  if ((metadata.pages ?? 1) > 1) {
+    return {
+      allowed: false,
+      code: "ANIMATED_IMAGE",
+      error: "Animated images are not allowed",
+      status: 400,
+    };
+  }
+
+  if (
+    metadata.width > MAX_IMAGE_DIMENSION ||
+    metadata.height > MAX_IMAGE_DIMENSION ||
+    metadata.width * metadata.height > MAX_IMAGE_PIXELS
+  ) {
+    return {
+      allowed: false,
+      code: "DIMENSIONS_TOO_LARGE",
+      error: `Images can be at most ${MAX_IMAGE_DIMENSION} pixels wide and high`,
+      status: 400,
+    };
+  }
+
+  return { allowed: true };
+}
+
+const quotaExceeded = {
+  allowed: false,
+  code: "QUOTA_EXCEEDED",
+  error: "You have used up your storage for uploads",
+  status: 400,
+} as const;
+
+// Serializes the upload checks of one user, so concurrent uploads cannot
+// all pass them. The lock is held until the transaction ends.
+async function lockUserUploads(tx: Prisma.TransactionClient, userId: string) {
+  await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`upload:${userId}`}))`;
+}
+
+async function getStoredSize(tx: Prisma.TransactionClient, userId: string) {
+  const stored = await tx.upload.aggregate({
+    where: { userId },
+    _sum: { size: true },
+  });
+  return stored._sum.size ?? 0;
+}
+
+// Record an upload attempt unless the user is over their upload rate or has
+// no storage left. Attempts count whether or not the upload then succeeds,
+// since rejected images cost as much to inspect.
+export async function recordUploadAttempt(
+  userId: string,
+  now: Date = new Date()
+): Promise<UploadCheck> {
+  return prisma.$transaction(async (tx) => {
+    await lockUserUploads(tx, userId);
+
+    const recent = await tx.uploadAttempt.count({
+      where: {
+        userId,
+        createdAt: { gt: new Date(now.getTime() - HOUR_MS) },
+      },
+    });
+    if (recent >= getUploadRateLimit()) {
+      return {
+        allowed: false,
+        code: "RATE_LIMITED",
+        error: "Too many uploads, please try again later",
+        status: 429,
+      } as const;
+    }
+
+    if ((await getStoredSize(tx, userId)) >= getUploadQuota()) {
+      return quotaExceeded;
+    }
+
+    await tx.uploadAttempt.create({
+      data: { userId },
+    });
+    return { allowed: true } as const;
+  });
+}
+
+// Record a stored cover as the user's upload if it fits in their quota.
+// When it does not, the caller deletes the stored files.
+export async function saveUpload(
+  userId: string,
+  cover: StoredCover
+): Promise<UploadCheck> {
+  return prisma.$transaction(async (tx) => {
+    await lockUserUploads(tx, userId);
+
+    if ((await getStoredSize(tx, userId)) + cover.size > getUploadQuota()) {
+      return quotaExceeded;
+    }
+
+    await tx.upload.create({
+      data: {
+        userId,
+        url: cover.coverImage,
+        thumbnailUrl: cover.coverThumbnail,
+        placeholder: cover.coverPlaceholder,
+        size: cover.size,
+      },
+    });
+    return { allowed: true } as const;
+  });
+}
+
+// Delete the stored files of the uploads, then the uploads themselves.
+// Uploads whose files could not be deleted are left for the next sweep.
+// Returns the number of deleted uploads.
+export async function deleteUploads(uploads: Upload[]) {
+  const storage = getStorage();
+
+  let deleted = 0;
+  for (const upload of uploads) {
+    try {
+      await storage.delete(upload.url);
+      if (upload.thumbnailUrl) {
+        await storage.delete(upload.thumbnailUrl);
+      }
+      await prisma.upload.delete({
+        where: { id: upload.id },
+      });
+      deleted++;
+    } catch (error) {
+      console.error(`Error deleting upload ${upload.id}:`, error);
+    }
+  }
+
+  return deleted;
+}
+
+// The cover fields of a book from one of the user's uploads that no other
+// book uses, or null when the URL is not one. Covers are only ever set from
+// uploads; remote images are imported through /api/upload first, never
+// linked as they are.
+export async function findCoverUpload(
+  url: string,
+  userId: string,
+  bookId?: string
+) {
+  const upload = await prisma.upload.findFirst({
+    where: {
+      url,
+      userId,
+      OR: [{ bookId: null }, ...(bookId ? [{ bookId }] : [])],
+    },
+  });
+  if (!upload) return null;
+
+  return {
+    coverImage: upload.url,
+    coverThumbnail: upload.thumbnailUrl,
+    coverPlaceholder: upload.placeholder,
+  };
+}
+
+// Link the upload behind a book's new cover to the book and delete the
+// upload of the cover it replaced. Only the user's own unused uploads can
+// be claimed, see findCoverUpload.
+export async function attachCover(
+  bookId: string,
+  coverImage: string | null,
+  userId: string
+) {
+  if (coverImage) {
+    await prisma.upload.updateMany({
+      where: { url: coverImage, userId, bookId: null },
+      data: { bookId },
+    });
+  }
+
+  const replaced = await prisma.upload.findMany({
+    where: {
+      bookId,
+      ...(coverImage && { url: { not: coverImage } }),
+    },
+  });
+  if (replaced.length === 0) return;
+
+  // Unlinked first, so the sweep picks up whatever fails to be deleted
+  await prisma.upload.updateMany({
+    where: { id: { in: replaced.map((upload) => upload.id) } },
+    data: { bookId: null },
+  });
+  await deleteUploads(replaced);
+}
+
+// Delete uploads no book has used for longer than the orphan threshold,
+// such as covers picked in a dialog that was then cancelled. Returns the
+// number of deleted uploads.
+export async function sweepOrphanedUploads(now: Date = new Date()) {
+  const uploads = await prisma.upload.findMany({
+    where: {
+      bookId: null,
+      createdAt: {
+        lt: new Date(now.getTime() - getUploadOrphanHours() * HOUR_MS),
+      },
+    },
+  });
+
+  // Attempts only matter for the hourly upload rate
+  await prisma.uploadAttempt.deleteMany({
+    where: {
+      createdAt: { lt: new Date(now.getTime() - HOUR_MS) },
+    },
+  });
+
+  return deleteUploads(uploads);
+}
+
+// Read at most MAX_UPLOAD_SIZE bytes of a response, or null when it is larger
+async function readLimited(response: Response) {
+  if (Number(response.headers.get("content-length")) > MAX_UPLOAD_SIZE) {
+    return null;
+  }
+  if (!response.body) return Buffer.alloc(0);
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return Buffer.concat(chunks);
+
+    size += value.length;
+    if (size > MAX_UPLOAD_SIZE) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+}
+
+// Download a cover from a public http(s) URL. Redirects are followed by hand
+// so that every hop is checked, see src/lib/public-fetch.ts.
+export async function fetchRemoteImage(input: string): Promise<RemoteImage> {
+  const invalid = {
+    allowed: false,
+    code: "INVALID_URL",
+    error: "Enter a public http or https image URL",
+    status: 400,
+  } as const;
+  const failed = {
+    allowed: false,
+    code: "REMOTE_FETCH_FAILED",
+    error: "The image could not be downloaded",
+    status: 400,
+  } as const;
+
+  let url = URL.canParse(input) ? new URL(input) : null;
+  for (let redirects = 0; url; redirects++) {
+    if (!["http:", "https:"].includes(url.protocol)) {
+      return invalid;
+    }
+
+    const response = await publicFetch(url, {
+      signal: AbortSignal.timeout(REMOTE_TIMEOUT_MS),
+    }).catch((error) => (error instanceof BlockedAddressError ? error : null));
+    if (response instanceof BlockedAddressError) return invalid;
+    if (!response) return failed;
+
+    const location = response.headers.get("location");
+    if (response.status >= 300 && response.status < 400 && location) {
+      await response.body?.cancel();
+      if (redirects >= MAX_REDIRECTS) return failed;
+      url = URL.canParse(location, url) ? new URL(location, url) : null;
+      continue;
+    }
+    if (!response.ok) {
+      await response.body?.cancel();
+      return failed;
+    }
+
+    const data = await readLimited(response).catch(() => undefined);
+    if (data === undefined) return failed;
+    if (data === null) {
+      return {
+        allowed: false,
+        code: "FILE_TOO_LARGE",
+        error: "File too large. Maximum size is 5MB.",
+        status: 413,
+      };
+    }
+    return { allowed: true, data };
+  }
+
+  return invalid;
+}
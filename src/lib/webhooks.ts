@@ -0,0 +1,294 @@
+import { createHmac, randomBytes } from "node:crypto";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import * as z from "zod";
+
+export const webhookEvents = [
+  "book.created",
+  "book.deleted",
+  "rental.created",
+  "rental.returned",
+  "rental.overdue",
+] as const;
+
+export type WebhookEvent = (typeof webhookEvents)[number];
+
+// Sent by the test button only, never subscribed to
+const TEST_EVENT = "webhook.test";
+
+const DEFAULT_WEBHOOK_MAX_ATTEMPTS = 6;
+
+// The first retry waits this long, every further one twice as long
+const RETRY_DELAY_MS = 5 * 60 * 1000;
+
+// Receivers that take longer count as failed
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+
+// How long a claimed delivery is left alone by other runs
+const CLAIM_MS = 2 * REQUEST_TIMEOUT_MS;
+
+// Attempts per delivery before it is given up, configurable via
+// WEBHOOK_MAX_ATTEMPTS
+export function getWebhookMaxAttempts() {
+  const attempts = Number(process.env.WEBHOOK_MAX_ATTEMPTS);
+  return Number.isInteger(attempts) && attempts > 0
+    ? attempts
+    : DEFAULT_WEBHOOK_MAX_ATTEMPTS;
+}
+
+export const webhookSchema = z.object({
+  url: z.url({
+    protocol: /^https?$/,
+    error: "Webhook URL must be an http or https URL",
+  }),
+  description: z
+    .string()
+    .trim()
+    .max(200)
+    .optional()
+    .transform((value) => value || null),
+  events: z
+    .array(z.enum(webhookEvents))
+    .min(1, "Choose at least one event")
+    .transform((events) => [...new Set(events)]),
+  active: z.boolean().optional(),
+});
+
+export const webhookUpdateSchema = webhookSchema.partial();
+
+export function generateWebhookSecret() {
+  return `whsec_${randomBytes(24).toString("hex")}`;
+}
+
+// Receivers verify a delivery by computing the same HMAC-SHA256 over
+// "<X-Webhook-Timestamp>.<raw body>" with the webhook's secret
+export function signPayload(secret: string, timestamp: string, body: string) {
+  return createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+}
+
+export const webhookDeliverySelect = {
+  id: true,
+  event: true,
+  status: true,
+  attempts: true,
+  nextAttemptAt: true,
+  responseStatus: true,
+  error: true,
+  deliveredAt: true,
+  createdAt: true,
+} satisfies Prisma.WebhookDeliverySelect;
+
+export function bookEventData(book: {
+  id: string;
+  title: string;
+  author: string;
+  ownerId: string;
+  deletedAt?: Date | null;
+}) {
+  return {
+    book: {
+      id: book.id,
+      title: book.title,
+      author: book.author,
+      ownerId: book.ownerId,
+      deletedAt: book.deletedAt ?? null,
+    },
+  };
+}
+
+export function rentalEventData(rental: {
+  id: string;
+  bookId: string;
+  copyId: string;
+  userId: string;
+  rentedAt: Date;
+  dueAt: Date;
+  returnedAt: Date | null;
+  book: { title: string };
+}) {
+  return {
+    rental: {
+      id: rental.id,
+      bookId: rental.bookId,
+      bookTitle: rental.book.title,
+      copyId: rental.copyId,
+      userId: rental.userId,
+      rentedAt: rental.rentedAt,
+      dueAt: rental.dueAt,
+      returnedAt: rental.returnedAt,
+    },
+  };
+}
+
+function createPayload(event: string, data: object) {
+  return JSON.parse(
+    JSON.stringify({ event, createdAt: new Date(), data })
+  ) as Prisma.InputJsonObject;
+}
+
+// Queue the event for every active webhook subscribed to it. Pass the
+// transaction client to queue it together with the change itself; the
+// deliveries go out with the next sendPendingWebhooks run.
+export async function emitWebhookEvent(
+  event: WebhookEvent,
+  data: object,
+  db: Prisma.TransactionClient = prisma
+) {
+  const webhooks = await db.webhook.findMany({
+    where: {
+      active: true,
+      events: { has: event },
+    },
+    select: {
+      id: true,
+    },
+  });
+  if (webhooks.length === 0) return;
+
+  const payload = createPayload(event, data);
+  await db.webhookDelivery.createMany({
+    data: webhooks.map((webhook) => ({
+      webhookId: webhook.id,
+      event,
+      payload,
+    })),
+  });
+}
+
+async function post(
+  webhook: { url: string; secret: string },
+  delivery: { id: string; event: string; payload: Prisma.JsonValue }
+) {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+
+  try {
+    const response = await fetch(webhook.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "Library-Webhooks",
+        "X-Webhook-Id": delivery.id,
+        "X-Webhook-Event": delivery.event,
+        "X-Webhook-Timestamp": timestamp,
+        "X-Webhook-Signature": `sha256=${signPayload(webhook.secret, timestamp, body)}`,
+      },
+      body,
+      redirect: "manual",
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    return {
+      responseStatus: response.status,
+      error: response.ok ? null : `Responded with ${response.status}`,
+    };
+  } catch (error) {
+    return {
+      responseStatus: null,
+      error: error instanceof Error ? error.message : "Request failed",
+    };
+  }
+}
+
+// Make one attempt and record its outcome. Failed deliveries are scheduled
+// again with exponential backoff until they run out of attempts, unless
+// retry is off.
+async function attemptDelivery(
+  deliveryId: string,
+  { now = new Date(), retry = true } = {}
+) {
+  const delivery = await prisma.webhookDelivery.findUniqueOrThrow({
+    where: { id: deliveryId },
+    include: { webhook: true },
+  });
+
+  const { responseStatus, error } = await post(delivery.webhook, delivery);
+  const attempts = delivery.attempts + 1;
+  const givenUp = !retry || attempts >= getWebhookMaxAttempts();
+
+  return prisma.webhookDelivery.update({
+    where: { id: deliveryId },
+    data: {
+      attempts,
+      responseStatus,
+      error,
+      status: !error ? "SUCCEEDED" : givenUp ? "FAILED" : "PENDING",
+      deliveredAt: !error ? new Date() : null,
+      nextAttemptAt:
+        !error || givenUp
+          ? null
+          : new Date(now.getTime() + RETRY_DELAY_MS * 2 ** (attempts - 1)),
+    },
+    select: webhookDeliverySelect,
+  });
+}
+
+// Send a ping to check the receiver is set up right. It is logged like any
+// other delivery but not retried.
+export async function sendTestDelivery(webhookId: string) {
+  const delivery = await prisma.webhookDelivery.create({
+    data: {
+      webhookId,
+      event: TEST_EVENT,
+      payload: createPayload(TEST_EVENT, {
+        message: "Test delivery from the library",
+      }),
+      nextAttemptAt: null,
+    },
+  });
+
+  return attemptDelivery(delivery.id, { retry: false });
+}
+
+// Send a logged delivery again as a new one, with the same payload
+export async function replayDelivery(deliveryId: string) {
+  const original = await prisma.webhookDelivery.findUniqueOrThrow({
+    where: { id: deliveryId },
+  });
+
+  const delivery = await prisma.webhookDelivery.create({
+    data: {
+      webhookId: original.webhookId,
+      event: original.event,
+      payload: original.payload ?? {},
+      nextAttemptAt: null,
+    },
+  });
+
+  return attemptDelivery(delivery.id);
+}
+
+// Send the deliveries that are due, first attempts and retries alike.
+// Returns the number that succeeded.
+export async function sendPendingWebhooks(now: Date = new Date()) {
+  const due = await prisma.webhookDelivery.findMany({
+    where: {
+      status: "PENDING",
+      nextAttemptAt: { lte: now },
+    },
+    select: {
+      id: true,
+      nextAttemptAt: true,
+    },
+    orderBy: {
+      createdAt: "asc",
+    },
+  });
+
+  let succeeded = 0;
+  for (const { id, nextAttemptAt } of due) {
+    // Claim the delivery first, so overlapping runs do not send it twice
+    const { count } = await prisma.webhookDelivery.updateMany({
+      where: { id, status: "PENDING", nextAttemptAt },
+      data: { nextAttemptAt: new Date(now.getTime() + CLAIM_MS) },
+    });
+    if (count === 0) continue;
+
+    const delivery = await attemptDelivery(id, { now });
+    if (delivery.status === "SUCCEEDED") succeeded++;
+  }
+
+  return succeeded;
+}